@@ -34,6 +34,20 @@ export default defineConfig({
 
     /* Configure projects for major browsers */
     projects: [
+        /* Unit tests of the pipeline's pure logic, no browser needed. */
+        {
+            name: 'unit',
+            testMatch: /.*\.spec\.ts/,
+            retries: 0,
+        },
+
+        /* The submission flow against the bundled mock portal, needs Chromium. */
+        {
+            name: 'portal',
+            testMatch: /.*\.e2e\.ts/,
+            retries: 0,
+            use: { ...devices['Desktop Chrome'] },
+        },
 
         {
             name: 'firefox',
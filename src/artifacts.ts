@@ -0,0 +1,246 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StageError } from './resilience';
+import { parseSourceSpec } from './source';
+
+// What a completed stage produced, and from which inputs
+export interface StageRecord {
+  inputsHash: string;
+  // Output name -> file relative to the run directory, with its content hash
+  outputs: Record<string, { file: string; sha256: string }>;
+  completedAt: string;
+}
+
+export interface RunManifest {
+  version: number;
+  source: string;
+  commit?: string;
+  createdAt: string;
+  updatedAt: string;
+  stages: Record<string, StageRecord>;
+}
+
+// Where progress messages go; console fits
+export interface Logger {
+  log(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+// Emitted as each stage starts, is reused from an earlier run, completes or fails
+export interface StageEvent {
+  stage: string;
+  status: 'running' | 'cached' | 'completed' | 'failed';
+  // Output name -> file relative to the run directory, once the stage has outputs
+  outputs?: Record<string, string>;
+  error?: unknown;
+}
+
+export interface RunOptions {
+  force: boolean;
+  dryRun: boolean;
+  logger?: Logger;
+  // Checked before every stage, so an aborted run stops between stages
+  signal?: AbortSignal;
+  onProgress?: (event: StageEvent) => void;
+}
+
+export interface RunDirectory {
+  dir: string;
+  manifest: RunManifest;
+  // Ignore cached stages and run everything again
+  force: boolean;
+  // Temporary run directory whose files are printed, never cached
+  dryRun: boolean;
+  logger: Logger;
+  signal?: AbortSignal;
+  onProgress?: (event: StageEvent) => void;
+}
+
+const MANIFEST_FILE = 'manifest.json';
+// Bump when a stage's outputs change shape, so manifests from older versions are ignored
+const MANIFEST_VERSION = 7;
+
+export function hashContent(content: string | Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+// Helper function to serialize with sorted keys so equal inputs hash equally
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashInputs(inputs: Record<string, unknown>): string {
+  return hashContent(stableStringify(inputs));
+}
+
+// Helper function to turn a source spec into a readable directory name, e.g. org-repo-packages-app
+function slugify(sourceSpec: string): string {
+  const { location, subdir } = parseSourceSpec(sourceSpec);
+  const name = location
+    .replace(/\.git$/, '')
+    .replace(/\/+$/, '')
+    .split(/[/:\\]/)
+    .slice(-2)
+    .join('-');
+  return [name, subdir]
+    .filter(Boolean)
+    .join('-')
+    .replace(/[^a-zA-Z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+}
+
+// Helper function to open (or create) the run directory for a repository at a commit.
+// Runs without a resolvable commit share a "worktree" directory and are never cached.
+export function openRunDirectory(
+  outputDir: string,
+  sourceSpec: string,
+  commit: string | undefined,
+  options: RunOptions
+): RunDirectory {
+  const logger = options.logger || console;
+  const hooks = { logger, signal: options.signal, onProgress: options.onProgress };
+  const now = new Date().toISOString();
+  const emptyManifest: RunManifest = {
+    version: MANIFEST_VERSION,
+    source: sourceSpec,
+    commit,
+    createdAt: now,
+    updatedAt: now,
+    stages: {},
+  };
+
+  if (options.dryRun) {
+    return {
+      dir: fs.mkdtempSync(path.join(os.tmpdir(), 'hackathon-submit-run-')),
+      manifest: emptyManifest,
+      force: true,
+      dryRun: true,
+      ...hooks,
+    };
+  }
+
+  const dir = path.resolve(outputDir, `${slugify(sourceSpec)}-${commit ? commit.slice(0, 12) : 'worktree'}`);
+  fs.mkdirSync(dir, { recursive: true });
+
+  let manifest = emptyManifest;
+  const manifestPath = path.join(dir, MANIFEST_FILE);
+  if (fs.existsSync(manifestPath)) {
+    try {
+      const saved: RunManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+      if (saved.version === MANIFEST_VERSION) {
+        manifest = saved;
+      } else {
+        logger.log(`Ignoring ${manifestPath} from an older version, every stage will run`);
+      }
+    } catch (error) {
+      logger.error(`Error reading ${manifestPath}, starting a fresh manifest:`, error);
+    }
+  }
+
+  return { dir, manifest, force: options.force || !commit, dryRun: false, ...hooks };
+}
+
+function saveManifest(run: RunDirectory) {
+  if (run.dryRun) {
+    return;
+  }
+  run.manifest.updatedAt = new Date().toISOString();
+  fs.writeFileSync(path.join(run.dir, MANIFEST_FILE), JSON.stringify(run.manifest, null, 2), 'utf8');
+}
+
+// Helper function to write a file into the run directory and return its relative name.
+// On a dry run text files are also printed, since the directory is thrown away.
+export function writeRunFile(run: RunDirectory, name: string, content: string): string {
+  fs.writeFileSync(path.join(run.dir, name), content, 'utf8');
+  if (run.dryRun) {
+    run.logger.log(`\n[dry run] ${name}:\n${content}`);
+  } else {
+    run.logger.log(`Saved ${path.join(run.dir, name)}`);
+  }
+  return name;
+}
+
+export function readRunFile(run: RunDirectory, name: string): string {
+  return fs.readFileSync(path.join(run.dir, name), 'utf8');
+}
+
+// Helper function to tell whether a cached stage is still valid: same inputs
+// and every output file still on disk with the recorded content
+function isCached(run: RunDirectory, record: StageRecord | undefined, inputsHash: string): record is StageRecord {
+  if (run.force || !record || record.inputsHash !== inputsHash) {
+    return false;
+  }
+  return Object.values(record.outputs).every(({ file, sha256 }) => {
+    const filePath = path.join(run.dir, file);
+    return fs.existsSync(filePath) && hashContent(fs.readFileSync(filePath)) === sha256;
+  });
+}
+
+// Helper function to run a pipeline stage once per set of inputs. fn writes its
+// files into the run directory and returns output name -> relative file name;
+// when the inputs are unchanged the recorded outputs are returned instead.
+export async function runStage(
+  run: RunDirectory,
+  name: string,
+  inputs: Record<string, unknown>,
+  fn: () => Promise<Record<string, string>>
+): Promise<Record<string, string>> {
+  run.signal?.throwIfAborted();
+  const inputsHash = hashInputs(inputs);
+  const record = run.manifest.stages[name];
+
+  if (isCached(run, record, inputsHash)) {
+    run.logger.log(`Stage ${name}: unchanged since ${record.completedAt}, reusing outputs`);
+    const cached = Object.fromEntries(Object.entries(record.outputs).map(([key, { file }]) => [key, file]));
+    run.onProgress?.({ stage: name, status: 'cached', outputs: cached });
+    return cached;
+  }
+
+  run.logger.log(`Stage ${name}: running`);
+  run.onProgress?.({ stage: name, status: 'running' });
+  let outputs: Record<string, string>;
+  try {
+    outputs = await fn();
+  } catch (error) {
+    run.onProgress?.({ stage: name, status: 'failed', error });
+    throw new StageError(name, error);
+  }
+
+  run.manifest.stages[name] = {
+    inputsHash,
+    outputs: Object.fromEntries(
+      Object.entries(outputs).map(([key, file]) => [
+        key,
+        { file, sha256: hashContent(fs.readFileSync(path.join(run.dir, file))) },
+      ])
+    ),
+    completedAt: new Date().toISOString(),
+  };
+  saveManifest(run);
+  run.onProgress?.({ stage: name, status: 'completed', outputs });
+  return outputs;
+}
+
+// Helper function to get the content hash of a stage output, for downstream stage inputs
+export function outputHash(run: RunDirectory, stage: string, output: string): string | undefined {
+  return run.manifest.stages[stage]?.outputs[output]?.sha256;
+}
+
+// Helper function to remove a dry run's temporary directory
+export function closeRunDirectory(run: RunDirectory) {
+  if (run.dryRun) {
+    fs.rmSync(run.dir, { recursive: true, force: true });
+  }
+}
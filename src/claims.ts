@@ -0,0 +1,487 @@
+import fs from 'fs';
+import { builtinModules } from 'module';
+import path from 'path';
+import { Logger } from './artifacts';
+import { normalizeName, similarity } from './fuzzy';
+import { parseGitHubRepository } from './publish';
+import { SourceSpec } from './source';
+import { TECH_CATEGORIES, TechStack, parseManifest } from './techstack';
+import { WalkResult } from './walker';
+
+export interface ClaimOptions {
+  // 'flag' only reports unsupported claims, 'remove' drops list items, code
+  // lines and links making them and flags the rest, 'abort' stops the run
+  onUnsupported: 'remove' | 'flag' | 'abort';
+  // Claims known to be true that the checks can't see, e.g. an environment
+  // variable set by the hosting platform
+  allow: string[];
+}
+
+// What the repository actually contains, collected while it is checked out
+export interface RepositoryFacts {
+  files: string[];
+  // Declared in manifests, plus the project's own package names
+  dependencies: string[];
+  // Detected by the tech stack rules, e.g. "Tailwind CSS"
+  technologies: string[];
+  // package.json scripts and bin names, Makefile targets
+  scripts: string[];
+  // UPPER_SNAKE names mentioned in any text file: env lookups, .env examples, CI config
+  envVars: string[];
+  // Hosts of URLs mentioned in any text file
+  hosts: string[];
+  repository?: { owner: string; repo: string };
+  // Stemmed words of the file summaries and paths
+  vocabulary: string[];
+}
+
+export type ClaimKind = 'dependency' | 'script' | 'envVar' | 'file' | 'link' | 'feature';
+
+export interface UnsupportedClaim {
+  kind: ClaimKind;
+  claim: string;
+  line: number;
+  reason: string;
+  action: 'removed' | 'flagged';
+}
+
+type Problem = Omit<UnsupportedClaim, 'line' | 'action'>;
+
+// Tools a README may mention without the repository declaring them
+const RUNTIMES = ['node', 'nodejs', 'npm', 'npx', 'yarn', 'pnpm', 'bun', 'deno', 'python', 'pip', 'go', 'golang', 'rust', 'cargo', 'java', 'git', 'docker'];
+const ENV_ALLOWED = ['NODE_ENV', 'NODE_OPTIONS'];
+// Files and directories the user or a build creates
+const CREATED_PATHS = /^(\.env(\.(local|development|production|test))?|node_modules|dist|build|out|target|\.next|venv|\.venv)(\/|$)/;
+const PATH_EXTENSIONS = /\.(ts|tsx|js|jsx|mjs|cjs|json|md|sol|py|rs|go|java|toml|ya?ml|txt|sh|css|scss|html|prisma|graphql|sql|lock|example)$/i;
+const PLACEHOLDER_LINK = /your[-_]?(user(name)?|org|repo|project|app|domain|name)|\/username\/|example\.(com|org)|<[^>]*>|YOUR_|\.\.\./i;
+// Hosts of deployed apps; a live demo URL the repository never mentions is made up
+const DEPLOYMENT_HOSTS = ['vercel.app', 'netlify.app', 'herokuapp.com', 'github.io', 'pages.dev', 'onrender.com', 'fly.dev', 'railway.app', 'surge.sh'];
+// Package manager subcommands that are not package.json scripts
+const PACKAGE_MANAGER_COMMANDS = [
+  'install', 'i', 'ci', 'add', 'remove', 'rm', 'uninstall', 'update', 'up', 'upgrade', 'init', 'create',
+  'dlx', 'exec', 'x', 'link', 'unlink', 'global', 'why', 'info', 'outdated', 'audit', 'publish', 'login', 'config', 'cache',
+];
+const NPM_LIFECYCLE_SCRIPTS = ['start', 'test', 't', 'stop', 'restart'];
+const DEPENDENCY_HEADING = /\b(dependencies|built with|libraries|packages|tech(nology|nologies)?( stack)?)\b/i;
+const FEATURE_HEADING = /\b(features|capabilities|highlights|what it does)\b/i;
+const STOPWORDS = new Set(
+  'with from into that this their them they your using based also allow allows easy easily simple support supports provide provides feature features user users able make makes fully more most other each which when what where will across about ability real time'.split(' ')
+);
+
+// Helper function to reduce a word to a comparable stem: "uploads" and "uploading" -> "uploa"
+function stem(word: string): string {
+  return word.toLowerCase().slice(0, 5);
+}
+
+// Helper function to split text into words, including camelCase and snake_case parts
+function words(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word.length >= 4 && !/^\d+$/.test(word));
+}
+
+// Helper function to read a skipped text file, e.g. .env.example or a workflow,
+// undefined when it is binary, large or unreadable
+function readTextFile(filePath: string, maxBytes: number): string | undefined {
+  try {
+    if (fs.statSync(filePath).size > maxBytes) {
+      return undefined;
+    }
+    const buffer = fs.readFileSync(filePath);
+    return buffer.includes(0) ? undefined : buffer.toString('utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+// Helper function to collect the facts generated text is checked against,
+// while the repository in dir is still checked out. manifests are relative to dir.
+export function collectFacts(
+  dir: string,
+  walkResult: WalkResult,
+  manifests: string[],
+  techStack: TechStack,
+  source: SourceSpec,
+  maxFileBytes: number,
+  logger: Logger = console
+): RepositoryFacts {
+  const files = [
+    ...walkResult.files.map((file) => file.path),
+    // Ignored files aren't part of the repository others see
+    ...walkResult.skipped
+      .filter((file) => file.reason !== 'vendored' && file.reason !== 'gitignore')
+      .map((file) => file.path.replace(/\/$/, '')),
+  ];
+
+  const dependencies = new Set<string>();
+  const scripts = new Set<string>();
+  for (const manifest of manifests) {
+    const content = readTextFile(path.join(dir, manifest), maxFileBytes);
+    if (content === undefined) {
+      continue;
+    }
+    for (const name of parseManifest(path.basename(manifest), content, logger)) {
+      dependencies.add(name.toLowerCase());
+    }
+    if (path.basename(manifest) === 'package.json') {
+      try {
+        const manifestJson = JSON.parse(content);
+        if (typeof manifestJson.name === 'string') {
+          dependencies.add(manifestJson.name.toLowerCase());
+        }
+        Object.keys(manifestJson.scripts || {}).forEach((script) => scripts.add(script));
+        const bin = manifestJson.bin;
+        Object.keys(typeof bin === 'string' ? { [manifestJson.name]: bin } : bin || {}).forEach((name) => scripts.add(name));
+      } catch {
+        // Reported by the tech stack detection already
+      }
+    }
+  }
+  const makefile = readTextFile(path.join(dir, 'Makefile'), maxFileBytes);
+  for (const match of makefile?.matchAll(/^([A-Za-z0-9_.-]+)\s*:(?!=)/gm) || []) {
+    scripts.add(match[1]);
+  }
+
+  // Env var names and URLs are read from every text file, including the ones
+  // not summarized, since they usually live in .env examples and CI config
+  const envVars = new Set<string>();
+  const hosts = new Set<string>();
+  for (const file of files) {
+    const content = readTextFile(path.join(dir, file), maxFileBytes);
+    if (content === undefined) {
+      continue;
+    }
+    for (const match of content.matchAll(/\b[A-Z][A-Z0-9]*_[A-Z0-9_]+\b/g)) {
+      envVars.add(match[0]);
+    }
+    for (const match of content.matchAll(/https?:\/\/([a-z0-9.-]+)/gi)) {
+      hosts.add(match[1].toLowerCase());
+    }
+  }
+
+  const technologies = TECH_CATEGORIES.flatMap((category) => techStack[category].map((tech) => tech.name));
+  const vocabulary = new Set<string>();
+  for (const text of [...walkResult.files.map((file) => `${file.path} ${file.summary}`), ...dependencies, ...technologies]) {
+    words(text).forEach((word) => vocabulary.add(stem(word)));
+  }
+
+  return {
+    files,
+    dependencies: [...dependencies],
+    technologies,
+    scripts: [...scripts],
+    envVars: [...envVars],
+    hosts: [...hosts],
+    repository: parseGitHubRepository(source.location),
+    vocabulary: [...vocabulary],
+  };
+}
+
+function checkDependency(name: string, facts: RepositoryFacts): Problem | undefined {
+  // "OpenAI GPT-4" is backed by the openai package
+  const candidates = [name, name.split(/\s+/)[0]];
+  if (
+    RUNTIMES.includes(normalizeName(name)) ||
+    facts.dependencies.includes(name.toLowerCase()) ||
+    [...facts.dependencies, ...facts.technologies].some((known) =>
+      candidates.some((candidate) => similarity(known, candidate) >= 0.9)
+    )
+  ) {
+    return undefined;
+  }
+  return { kind: 'dependency', claim: name, reason: 'not declared in any manifest' };
+}
+
+function checkFile(claimed: string, facts: RepositoryFacts): Problem | undefined {
+  const filePath = claimed.replace(/^\.?\//, '').replace(/[#?].*$/, '').replace(/\/$/, '');
+  if (!filePath || filePath === '.' || CREATED_PATHS.test(filePath)) {
+    return undefined;
+  }
+  const found = facts.files.some(
+    (file) =>
+      file === filePath ||
+      file.startsWith(`${filePath}/`) ||
+      file.endsWith(`/${filePath}`) ||
+      file.includes(`/${filePath}/`)
+  );
+  return found ? undefined : { kind: 'file', claim: claimed, reason: 'not in the repository' };
+}
+
+function checkScript(script: string, facts: RepositoryFacts): Problem | undefined {
+  return facts.scripts.includes(script)
+    ? undefined
+    : { kind: 'script', claim: script, reason: 'no such package.json script or Makefile target' };
+}
+
+function checkEnvVar(name: string, facts: RepositoryFacts): Problem | undefined {
+  return facts.envVars.includes(name) || ENV_ALLOWED.includes(name)
+    ? undefined
+    : { kind: 'envVar', claim: name, reason: 'never mentioned in the code or config' };
+}
+
+function checkLink(url: string, facts: RepositoryFacts): Problem | undefined {
+  if (/^(#|mailto:)/i.test(url)) {
+    return undefined;
+  }
+  if (!/^[a-z]+:\/\//i.test(url)) {
+    return checkFile(url, facts) && { kind: 'link', claim: url, reason: 'links to a file that is not in the repository' };
+  }
+  if (PLACEHOLDER_LINK.test(url)) {
+    return { kind: 'link', claim: url, reason: 'placeholder link' };
+  }
+  const host = url.match(/^[a-z]+:\/\/([^/:?#]+)/i)?.[1].toLowerCase() || '';
+  if (DEPLOYMENT_HOSTS.some((deployment) => host.endsWith(deployment)) && !facts.hosts.includes(host)) {
+    return { kind: 'link', claim: url, reason: 'deployment URL not mentioned anywhere in the repository' };
+  }
+  const linked = parseGitHubRepository(url.replace(/^(https?:\/\/[^/]+\/[^/]+\/[^/#?]+).*$/, '$1'));
+  if (
+    host === 'github.com' &&
+    facts.repository &&
+    linked &&
+    linked.repo.toLowerCase() === facts.repository.repo.toLowerCase() &&
+    linked.owner.toLowerCase() !== facts.repository.owner.toLowerCase()
+  ) {
+    return { kind: 'link', claim: url, reason: `the repository is ${facts.repository.owner}/${facts.repository.repo}` };
+  }
+  return undefined;
+}
+
+// Helper function to check a feature against the summaries: at least half of
+// its meaningful words must appear in the code's symbols, docs or paths
+function checkFeature(feature: string, facts: RepositoryFacts): Problem | undefined {
+  const claimed = words(feature).filter((word) => !STOPWORDS.has(word.toLowerCase()));
+  if (claimed.length === 0) {
+    return undefined;
+  }
+  const matched = claimed.filter((word) => facts.vocabulary.includes(stem(word)));
+  return matched.length * 2 >= claimed.length
+    ? undefined
+    : { kind: 'feature', claim: feature, reason: 'nothing in the code summaries suggests it' };
+}
+
+// Helper function to reduce an import to its package name, undefined for
+// relative imports and Node built-ins
+function importedPackage(specifier: string): string | undefined {
+  if (/^[./]/.test(specifier) || specifier.startsWith('node:') || builtinModules.includes(specifier.split('/')[0])) {
+    return undefined;
+  }
+  return specifier.startsWith('@') ? specifier.split('/').slice(0, 2).join('/') : specifier.split('/')[0];
+}
+
+// Helper function to check one shell command, e.g. "npm run dev" or "node scripts/deploy.js"
+function checkCommand(command: string, facts: RepositoryFacts): Problem[] {
+  const problems: (Problem | undefined)[] = [];
+  for (const segment of command.replace(/^\s*\$\s*/, '').split(/&&|\|\||;|\|/)) {
+    const args = segment.trim().split(/\s+/).filter(Boolean);
+    const [tool, subcommand, ...rest] = args[0] === 'npx' ? args.slice(1) : args;
+    if (!tool) {
+      continue;
+    }
+    if (['npm', 'yarn', 'pnpm', 'bun'].includes(tool) && subcommand) {
+      if (['install', 'i', 'add'].includes(subcommand) && !rest.some((arg) => /^(-g|--global)$/.test(arg))) {
+        const packages = rest.filter((arg) => !arg.startsWith('-'));
+        problems.push(...packages.map((arg) => checkDependency(arg.replace(/(.)@[^/]*$/, '$1'), facts)));
+      } else if (['run', 'run-script'].includes(subcommand) && rest[0]) {
+        problems.push(checkScript(rest[0], facts));
+      } else if (tool === 'npm' ? NPM_LIFECYCLE_SCRIPTS.includes(subcommand) : !PACKAGE_MANAGER_COMMANDS.includes(subcommand)) {
+        problems.push(checkScript(subcommand === 't' ? 'test' : subcommand, facts));
+      }
+    } else if (tool === 'make') {
+      problems.push(subcommand && !subcommand.startsWith('-') ? checkScript(subcommand, facts) : checkFile('Makefile', facts));
+    } else if (['pip', 'pip3'].includes(tool) && subcommand === 'install') {
+      for (const [index, arg] of rest.entries()) {
+        if (arg === '-r' && rest[index + 1]) {
+          problems.push(checkFile(rest[index + 1], facts));
+        } else if (!arg.startsWith('-') && rest[index - 1] !== '-r' && !/^[.]/.test(arg)) {
+          problems.push(checkDependency(arg.split(/[<>=~!\[]/)[0], facts));
+        }
+      }
+    } else if (['node', 'python', 'python3', 'ts-node', 'tsx', 'deno', 'forge'].includes(tool)) {
+      const script = [subcommand, ...rest].find((arg) => arg && !arg.startsWith('-') && !['run', 'script'].includes(arg));
+      if (script && (script.includes('/') || PATH_EXTENSIONS.test(script)) && ![subcommand, ...rest].includes('-m')) {
+        problems.push(checkFile(script, facts));
+      }
+    } else if (['cp', 'mv'].includes(tool) && subcommand && !subcommand.startsWith('-')) {
+      problems.push(checkFile(subcommand, facts));
+    } else if (tool === 'docker' && subcommand === 'build') {
+      problems.push(facts.files.some((file) => /(^|\/)Dockerfile/.test(file)) ? undefined : checkFile('Dockerfile', facts));
+    } else if (tool === 'docker-compose' || (tool === 'docker' && subcommand === 'compose')) {
+      const compose = facts.files.some((file) => /(^|\/)(docker-)?compose\.ya?ml$/.test(file));
+      problems.push(compose ? undefined : { kind: 'file', claim: 'docker-compose.yml', reason: 'not in the repository' });
+    } else if (tool === 'git' && subcommand === 'clone' && rest[0]) {
+      problems.push(checkLink(rest[0], facts));
+    }
+  }
+  return problems.filter((problem): problem is Problem => Boolean(problem));
+}
+
+// Helper function to check a line inside a code block: commands, env
+// assignments and imports
+function checkCodeLine(line: string, language: string, facts: RepositoryFacts): Problem[] {
+  const assignment = line.match(/^\s*(?:export\s+|set\s+)?([A-Z][A-Z0-9]*_[A-Z0-9_]+)\s*=/);
+  if (assignment) {
+    return [checkEnvVar(assignment[1], facts)].filter((problem): problem is Problem => Boolean(problem));
+  }
+  const imported =
+    line.match(/\b(?:from\s*|import\s*\(?\s*|require\s*\(\s*)['"]([^'"]+)['"]/)?.[1] ??
+    (language === 'python' ? line.match(/^\s*(?:from\s+([\w.]+)\s+import|import\s+([\w.]+))/)?.slice(1).find(Boolean) : undefined);
+  if (imported) {
+    const name = language === 'python' ? imported.split('.')[0] : importedPackage(imported);
+    const problem = name && !(language === 'python' && facts.files.some((file) => file.startsWith(`${name}/`) || file === `${name}.py`))
+      ? checkDependency(name, facts)
+      : undefined;
+    return problem ? [problem] : [];
+  }
+  if (['', 'bash', 'sh', 'shell', 'console', 'zsh', 'powershell', 'cmd'].includes(language)) {
+    return checkCommand(line, facts);
+  }
+  return [];
+}
+
+// Helper function to check an inline code span: a command, env var or file path
+function checkInlineCode(code: string, facts: RepositoryFacts): Problem[] {
+  if (/^(npm|npx|yarn|pnpm|bun|make|node|python3?|pip3?|docker(-compose)?|ts-node|tsx|forge)\s/.test(code)) {
+    return checkCommand(code, facts);
+  }
+  if (/^[A-Z][A-Z0-9]*_[A-Z0-9_]+$/.test(code)) {
+    const problem = checkEnvVar(code, facts);
+    return problem ? [problem] : [];
+  }
+  const pathLike = /^(\.{0,2}\/)?[\w.-]+(\/[\w.[\]-]+)*\/?$/.test(code) && (code.includes('/') || PATH_EXTENSIONS.test(code));
+  // Package and product names like "Next.js" look like files
+  const known = [...facts.dependencies, ...facts.technologies].some((name) => normalizeName(name) === normalizeName(code));
+  if (pathLike && !known && !/^\d/.test(code)) {
+    const problem = checkFile(code, facts);
+    return problem ? [problem] : [];
+  }
+  return [];
+}
+
+// Helper function to read the name a dependency list item is about:
+// "- **express**: web server", "- `zod` - validation", "- [React](https://...)"
+function listItemName(item: string): string {
+  const marked = item.match(/^(?:\*\*|__|`|\[)([^*_`\]]+)/);
+  const name = marked ? marked[1] : item.split(/:|\s[-–—]\s|\(/)[0];
+  // Versions aren't part of the name: "Node.js 18+", "react@18"
+  return name.replace(/(@|\s+v?)\^?\d[\w.+-]*$/, '').replace(/\s+(or|and) (later|newer|above)$/, '').trim();
+}
+
+// Helper function to cross-check the factual claims of generated Markdown
+// (dependencies, commands, scripts, env vars, file paths, links, features)
+// against the repository facts. Depending on options.onUnsupported the lines
+// making unsupported claims are removed; the rest are flagged.
+export function verifyClaims(
+  markdown: string,
+  facts: RepositoryFacts,
+  options: ClaimOptions
+): { text: string; claims: UnsupportedClaim[] } {
+  const allowed = new Set(options.allow.map((claim) => claim.toLowerCase()));
+  const claims: UnsupportedClaim[] = [];
+  const output: string[] = [];
+  let fence: string | undefined;
+  let heading = '';
+
+  for (const [index, line] of markdown.split('\n').entries()) {
+    const fenceMatch = line.match(/^\s*(```|~~~)\s*([\w-]*)/);
+    if (fenceMatch) {
+      fence = fence === undefined ? fenceMatch[2].toLowerCase() : undefined;
+      output.push(line);
+      continue;
+    }
+    const headingMatch = fence === undefined && line.match(/^#{1,6}\s+(.*)/);
+    if (headingMatch) {
+      heading = headingMatch[1];
+      output.push(line);
+      continue;
+    }
+
+    const listItem = fence === undefined ? line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.*)/)?.[1] : undefined;
+    const problems: Problem[] = [];
+    const links: { markdown: string; text: string; problem: Problem }[] = [];
+    if (fence !== undefined) {
+      problems.push(...checkCodeLine(line, fence, facts));
+    } else {
+      for (const match of line.matchAll(/`([^`]+)`/g)) {
+        problems.push(...checkInlineCode(match[1].trim(), facts));
+      }
+      for (const match of line.matchAll(/(!?)\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g)) {
+        const problem = checkLink(match[3], facts);
+        if (problem) {
+          // Images are dropped, links keep their text
+          links.push({ markdown: match[0], text: match[1] ? '' : match[2], problem });
+        }
+      }
+      for (const match of line.replace(/\]\([^)]*\)/g, ']').matchAll(/https?:\/\/[^\s)>\]"'`]+/g)) {
+        // The full stop ending a sentence is not part of the URL
+        const problem = checkLink(match[0].replace(/[.,;:!?]+$/, ''), facts);
+        if (problem) {
+          problems.push(problem);
+        }
+      }
+      if (listItem && DEPENDENCY_HEADING.test(heading)) {
+        const problem = checkDependency(listItemName(listItem), facts);
+        if (problem) {
+          problems.push(problem);
+        }
+      }
+      if (listItem && FEATURE_HEADING.test(heading)) {
+        const problem = checkFeature(listItem.replace(/`[^`]*`|\([^)]*\)/g, ''), facts);
+        if (problem) {
+          problems.push(problem);
+        }
+      }
+    }
+
+    const unsupported = [...problems, ...links.map((link) => link.problem)].filter(
+      (problem) => !allowed.has(problem.claim.toLowerCase())
+    );
+    if (unsupported.length === 0) {
+      output.push(line);
+      continue;
+    }
+    const removable = options.onUnsupported === 'remove';
+    // A list item or code line is dropped whole; in prose only the links can go
+    const dropLine = removable && (fence !== undefined || listItem !== undefined);
+    for (const problem of unsupported) {
+      const isLink = links.some((link) => link.problem === problem);
+      claims.push({
+        ...problem,
+        line: index + 1,
+        action: dropLine || (removable && isLink) ? 'removed' : 'flagged',
+      });
+    }
+    if (dropLine) {
+      continue;
+    }
+    let kept = line;
+    if (removable) {
+      for (const link of links) {
+        kept = kept.replace(link.markdown, () => link.text);
+      }
+    }
+    // A line holding only a dropped image goes too
+    if (kept.trim()) {
+      output.push(kept);
+    }
+  }
+
+  return { text: output.join('\n'), claims };
+}
+
+// Helper function to render the unsupported claims as a Markdown report
+export function formatClaimReport(label: string, claims: UnsupportedClaim[]): string {
+  const title = `# ${label[0].toUpperCase()}${label.slice(1)} claims`;
+  if (claims.length === 0) {
+    return `${title}\n\nEvery dependency, command, env var, file, link and feature checked is backed by the repository.\n`;
+  }
+  const removed = claims.filter((claim) => claim.action === 'removed').length;
+  return [
+    title,
+    '',
+    `${claims.length} unsupported claim${claims.length === 1 ? '' : 's'}: ${removed} removed, ${claims.length - removed} flagged for review.`,
+    '',
+    ...claims.map((claim) => `- line ${claim.line}, ${claim.kind} \`${claim.claim}\`: ${claim.reason} (${claim.action})`),
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,139 @@
+import { parseArgs } from 'util';
+import { ProviderConfig } from './config';
+
+export const COMMANDS = ['readme', 'describe', 'images', 'script', 'video', 'prizes', 'publish', 'submit', 'rehearse', 'all'] as const;
+
+export type Command = (typeof COMMANDS)[number];
+
+export interface CliOptions {
+  command: Command;
+  // Repository source, see source.ts for the accepted forms
+  source: string;
+  // Hackathon portal base URL, only for submit and all
+  baseUrl?: string;
+  outputDir: string;
+  screenshots: number;
+  config?: string;
+  provider?: ProviderConfig['type'];
+  model?: string;
+  imageModel?: string;
+  llmBaseUrl?: string;
+  dryRun: boolean;
+  interactive: boolean;
+  // Run every stage even when its inputs are unchanged
+  force: boolean;
+}
+
+export const EXIT_OK = 0;
+// A pipeline stage failed at runtime
+export const EXIT_FAILURE = 1;
+// Bad command line
+export const EXIT_USAGE = 2;
+// Config or form definition could not be loaded
+export const EXIT_CONFIG = 3;
+// Cancelled by a signal: 128 plus the signal number, as shells report it
+export const EXIT_SIGNAL: Record<'SIGINT' | 'SIGTERM', number> = { SIGINT: 130, SIGTERM: 143 };
+
+export class UsageError extends Error {}
+
+export const USAGE = `Usage: npm start -- <command> [options] <args>
+
+Commands:
+  readme <source>              Generate the README, project name and brief description
+  describe <source>            Generate the detailed description
+  images <source>              Generate the logo, cover and screenshots
+  script <source>              Generate the video script
+  video <source>               Generate the script and images, then render the demo video
+  prizes <source>              Report the partner prizes matching the sponsor technology used
+  publish <source>             Generate the README and open a pull request adding it to the repository
+  submit <base_url> <source>   Generate texts and fill in the submission form with existing images
+  rehearse <source>            Like submit, against a local mock of the portal, and report what it received
+  all <base_url> <source>      Generate everything, then fill in the submission form
+
+<source> is <url-or-path>[#[<branch|tag|commit>][:<subdir>]], e.g. ./my-project#:frontend
+
+Options:
+  -o, --output-dir <dir>       Where run directories are kept; hand-made images and video
+                               placed here are used when a run has none (default: ./output)
+  -n, --screenshots <count>    Number of screenshots to generate, upload and show in the video (default: 6)
+  -c, --config <path>          Config file (default: submit.config.json or $SUBMIT_CONFIG)
+      --provider <type>        Default model provider: openai, openai-compatible or mock
+      --model <name>           Model for every text step
+      --image-model <name>     Model for the image steps
+      --llm-base-url <url>     Base URL of an OpenAI-compatible server
+      --dry-run                Print results instead of writing files, and the form plan instead of submitting
+      --interactive            Show the browser and pause before every form page
+  -f, --force                  Rerun stages whose inputs haven't changed, and submit again
+  -h, --help                   Show this help
+
+Exit codes: 0 success, 1 a stage failed, 2 bad command line, 3 bad config or form definition`;
+
+// Helper function to parse the command line, returning null when help was requested
+export function parseCli(argv: string[]): CliOptions | null {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        'output-dir': { type: 'string', short: 'o', default: 'output' },
+        screenshots: { type: 'string', short: 'n', default: '6' },
+        config: { type: 'string', short: 'c' },
+        provider: { type: 'string' },
+        model: { type: 'string' },
+        'image-model': { type: 'string' },
+        'llm-base-url': { type: 'string' },
+        'dry-run': { type: 'boolean', default: false },
+        interactive: { type: 'boolean', default: false },
+        force: { type: 'boolean', short: 'f', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help || positionals.length === 0) {
+    return null;
+  }
+
+  const [command, ...args] = positionals;
+  if (!COMMANDS.includes(command as Command)) {
+    throw new UsageError(`Unknown command: ${command}`);
+  }
+
+  const needsBaseUrl = command === 'submit' || command === 'all';
+  const expectedArgs = needsBaseUrl ? 2 : 1;
+  if (args.length !== expectedArgs) {
+    throw new UsageError(
+      `${command} expects ${needsBaseUrl ? '<base_url> <source>' : '<source>'}`
+    );
+  }
+
+  const screenshots = Number(values.screenshots);
+  if (!Number.isInteger(screenshots) || screenshots < 0 || screenshots > 10) {
+    throw new UsageError('--screenshots must be a whole number between 0 and 10');
+  }
+
+  const provider = values.provider as ProviderConfig['type'] | undefined;
+  if (provider && !['openai', 'openai-compatible', 'mock'].includes(provider)) {
+    throw new UsageError(`Unknown provider: ${provider}`);
+  }
+
+  return {
+    command: command as Command,
+    baseUrl: needsBaseUrl ? args[0] : undefined,
+    source: args[args.length - 1],
+    outputDir: values['output-dir'] as string,
+    screenshots,
+    config: values.config,
+    provider,
+    model: values.model,
+    imageModel: values['image-model'],
+    llmBaseUrl: values['llm-base-url'],
+    dryRun: Boolean(values['dry-run']),
+    interactive: Boolean(values.interactive),
+    force: Boolean(values.force),
+  };
+}
@@ -0,0 +1,252 @@
+import { z } from 'zod';
+import { LLMProvider } from './providers';
+import { generateStructured } from './structured';
+import { Logger } from './artifacts';
+
+export interface FileSummary {
+  // Path relative to the repository root, using forward slashes
+  path: string;
+  summary: string;
+  // Modules the file imports, as collected by its summarizer
+  imports?: string[];
+  // Where execution starts, e.g. main functions, routes or a CLI shebang
+  entryPoints?: string[];
+}
+
+export interface SummaryBudget {
+  // Upper bound for the codebase summary pasted into README/description prompts
+  budgetTokens: number;
+  // Upper bound for one chunk sent to the model during the map step
+  chunkTokens: number;
+}
+
+// Directories whose children are modules in their own right
+const CONTAINER_DIRS = ['src', 'packages', 'apps', 'lib', 'libs', 'services', 'contracts'];
+
+const ChunkSummarySchema = z.string().trim().min(1, 'The summary must not be empty');
+// Between the partial summaries merged in the reduce step
+const SUMMARY_SEPARATOR = '\n\n---\n\n';
+
+// Rough token estimate (~4 characters per token for English text and code),
+// good enough for budgeting without shipping a tokenizer
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function formatFileSummaries(files: FileSummary[]): string {
+  return files
+    .map((file) => `\n\n---\n**File:** /${file.path}\n${file.summary}\n`)
+    .join('');
+}
+
+// Helper function to find the module a file belongs to, e.g. packages/api/src/x.ts -> packages/api
+export function moduleOf(filePath: string): string {
+  const segments = filePath.split('/');
+  if (segments.length === 1) {
+    return '(root)';
+  }
+  if (CONTAINER_DIRS.includes(segments[0]) && segments.length > 2) {
+    return `${segments[0]}/${segments[1]}`;
+  }
+  return segments[0];
+}
+
+export function groupByModule(files: FileSummary[]): Map<string, FileSummary[]> {
+  const modules = new Map<string, FileSummary[]>();
+  for (const file of files) {
+    const moduleName = moduleOf(file.path);
+    modules.set(moduleName, [...(modules.get(moduleName) || []), file]);
+  }
+  return modules;
+}
+
+// Helper function to split text that is larger than one chunk on line boundaries
+function splitText(text: string, chunkTokens: number): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (const line of text.split('\n')) {
+    if (current && estimateTokens(current + line) > chunkTokens) {
+      parts.push(current);
+      current = '';
+    }
+    current += `${line}\n`;
+  }
+  if (current) {
+    parts.push(current);
+  }
+  return parts;
+}
+
+// Helper function to pack a module's file summaries into chunks of at most chunkTokens
+export function chunkModule(files: FileSummary[], chunkTokens: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const file of files) {
+    const text = formatFileSummaries([file]);
+    if (current && estimateTokens(current + text) > chunkTokens) {
+      chunks.push(current);
+      current = '';
+    }
+    if (estimateTokens(text) > chunkTokens) {
+      chunks.push(...splitText(text, chunkTokens));
+    } else {
+      current += text;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+const CONDENSE_SYSTEM_PROMPT =
+  'You are an assistant that condenses codebase summaries while keeping every fact a README writer would need: purpose, entry points, public APIs, dependencies and notable files.';
+
+// Helper function to summarize one chunk within a token target
+async function summarizeChunk(
+  provider: LLMProvider,
+  label: string,
+  content: string,
+  targetTokens: number,
+  maxRepairs: number,
+  logger: Logger
+): Promise<string> {
+  return generateStructured(
+    provider,
+    [
+      { role: 'system', content: CONDENSE_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `Condense the following summary of ${label} into at most ${Math.floor(targetTokens * 0.75)} words of plain text. Mention file paths where relevant and do not invent anything that is not in the summary.
+
+${content}`,
+      },
+    ],
+    ChunkSummarySchema,
+    { format: 'text', label: `Summary of ${label}`, maxRepairs, logger }
+  );
+}
+
+// Helper function to pack summaries into batches of at most chunkTokens,
+// splitting any that is larger than a batch on line boundaries
+function batchSummaries(summaries: string[], chunkTokens: number): string[][] {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  const pieces = summaries.flatMap((text) => (estimateTokens(text) > chunkTokens ? splitText(text, chunkTokens) : [text]));
+  for (const summary of pieces) {
+    if (current.length > 0 && estimateTokens([...current, summary].join(SUMMARY_SEPARATOR)) > chunkTokens) {
+      batches.push(current);
+      current = [];
+    }
+    current.push(summary);
+  }
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+// Helper function to merge a batch of partial summaries of the project into
+// one within a token target
+async function mergeSummaries(
+  provider: LLMProvider,
+  label: string,
+  summaries: string[],
+  targetTokens: number,
+  maxRepairs: number,
+  logger: Logger
+): Promise<string> {
+  return generateStructured(
+    provider,
+    [
+      { role: 'system', content: CONDENSE_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `The following ${summaries.length} summaries, separated by ---, each cover part of the same project. Merge them into one summary of at most ${Math.floor(targetTokens * 0.75)} words of plain text. Keep module names and file paths, drop repetition and do not invent anything that is not in the summaries.
+
+${summaries.join(SUMMARY_SEPARATOR)}`,
+      },
+    ],
+    ChunkSummarySchema,
+    { format: 'text', label: `Summary of ${label}`, maxRepairs, logger }
+  );
+}
+
+// Helper function to fit the codebase summary into the token budget.
+// Map: summarize each module chunk independently. Reduce: merge the chunk
+// summaries, condensing them again in batches until they fit the budget.
+export async function condenseCodebase(
+  provider: LLMProvider,
+  files: FileSummary[],
+  budget: SummaryBudget,
+  maxRepairs: number,
+  logger: Logger = console
+): Promise<string> {
+  const fullSummary = formatFileSummaries(files);
+  const fullTokens = estimateTokens(fullSummary);
+
+  logger.log(
+    `Codebase summary: ~${fullTokens} tokens from ${files.length} files (budget ${budget.budgetTokens} tokens, chunk size ${budget.chunkTokens} tokens)`
+  );
+  if (fullTokens <= budget.budgetTokens) {
+    return fullSummary;
+  }
+
+  // Map step
+  const chunks: { label: string; content: string }[] = [];
+  for (const [moduleName, moduleFiles] of groupByModule(files)) {
+    const moduleChunks = chunkModule(moduleFiles, budget.chunkTokens);
+    moduleChunks.forEach((content, index) => {
+      const part = moduleChunks.length > 1 ? ` (part ${index + 1}/${moduleChunks.length})` : '';
+      chunks.push({ label: `module ${moduleName}${part}`, content });
+    });
+  }
+
+  const targetTokens = Math.max(100, Math.floor(budget.budgetTokens / chunks.length));
+  logger.log(
+    `Summarizing ${chunks.length} chunks (~${targetTokens} tokens each): ${chunks
+      .map((chunk) => `${chunk.label} ~${estimateTokens(chunk.content)}`)
+      .join(', ')}`
+  );
+
+  let summaries: string[] = [];
+  for (const chunk of chunks) {
+    const summary = await summarizeChunk(provider, chunk.label, chunk.content, targetTokens, maxRepairs, logger);
+    summaries.push(`### ${chunk.label}\n${summary}`);
+  }
+
+  // Reduce step
+  let reduced = summaries.join('\n\n');
+  let round = 1;
+  while (estimateTokens(reduced) > budget.budgetTokens && summaries.length > 1) {
+    const batches = batchSummaries(summaries, budget.chunkTokens);
+    const batchTarget = Math.max(100, Math.floor(budget.budgetTokens / batches.length));
+    logger.log(
+      `Reduce round ${round}: ~${estimateTokens(reduced)} tokens in ${batches.length} batches (~${batchTarget} tokens each)`
+    );
+
+    const nextSummaries: string[] = [];
+    for (const [index, batch] of batches.entries()) {
+      nextSummaries.push(
+        await mergeSummaries(provider, `project summary batch ${index + 1}`, batch, batchTarget, maxRepairs, logger)
+      );
+    }
+    // Stop when another round no longer shrinks the summary
+    if (estimateTokens(nextSummaries.join('\n\n')) >= estimateTokens(reduced)) {
+      break;
+    }
+    summaries = nextSummaries;
+    reduced = summaries.join('\n\n');
+    round++;
+  }
+
+  if (estimateTokens(reduced) > budget.budgetTokens) {
+    logger.error(
+      `Condensed summary is still ~${estimateTokens(reduced)} tokens, truncating to the ${budget.budgetTokens} token budget`
+    );
+    reduced = reduced.slice(0, budget.budgetTokens * 4);
+  }
+
+  logger.log(`Condensed codebase summary: ~${estimateTokens(reduced)} tokens`);
+  return reduced;
+}
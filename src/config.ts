@@ -0,0 +1,329 @@
+import fs from 'fs';
+import path from 'path';
+import { Logger } from './artifacts';
+import { ClaimOptions } from './claims';
+import { HistoryOptions } from './history';
+import { PrizeOptions } from './prizes';
+import { PublishOptions } from './publish';
+import { RetryPolicy } from './resilience';
+import { SecretOptions } from './secrets';
+import { ScreenshotOptions } from './screenshots';
+import { VideoOptions } from './video';
+import { WalkerOptions } from './walker';
+
+// Pipeline steps that talk to a language or image model
+export type PipelineStep =
+  | 'summary'
+  | 'readme'
+  | 'description'
+  | 'videoScript'
+  | 'formContent'
+  | 'images'
+  | 'screenshots';
+
+export const PIPELINE_STEPS: PipelineStep[] = [
+  'summary',
+  'readme',
+  'description',
+  'videoScript',
+  'formContent',
+  'images',
+  'screenshots',
+];
+
+export interface ProviderConfig {
+  // 'openai' uses api.openai.com, 'openai-compatible' any server speaking the
+  // same API (llama.cpp, Ollama, vLLM...), 'mock' returns deterministic fixtures
+  type: 'openai' | 'openai-compatible' | 'mock';
+  model?: string;
+  imageModel?: string;
+  baseURL?: string;
+  // Name of the environment variable holding the API key
+  apiKeyEnv?: string;
+  // Directory with <step>.txt / <step>.json fixture files for the mock provider
+  fixturesDir?: string;
+}
+
+// Provider settings applied to every step at once, e.g. from --provider and --model
+export interface ProviderOverrides {
+  provider?: ProviderConfig['type'];
+  model?: string;
+  imageModel?: string;
+  llmBaseUrl?: string;
+}
+
+export interface SubmitConfig {
+  providers: {
+    default: ProviderConfig;
+  } & Partial<Record<PipelineStep, ProviderConfig>>;
+  structuredOutput: {
+    // Times a schema validation error is sent back to the model before giving up
+    maxRepairs: number;
+  };
+  // Retries, backoff and timeouts for every OpenAI, GitHub and HTTP call
+  resilience: RetryPolicy;
+  summary: {
+    // Token budget for the codebase summary pasted into README/description prompts
+    budgetTokens: number;
+    // Size of each module chunk summarized independently when over budget
+    chunkTokens: number;
+  };
+  walker: WalkerOptions;
+  secrets: SecretOptions;
+  // Checks of the generated README and description against the repository
+  claims: ClaimOptions;
+  // Contributors, timeline and the hackathon window from the git history
+  history: HistoryOptions;
+  prizes: PrizeOptions;
+  screenshots: ScreenshotOptions;
+  video: VideoOptions;
+  publish: PublishOptions;
+  submission: {
+    // Form definition describing the event's submission pages, see forms/
+    form: string;
+    // Upper bound for every wait in the browser step (uploads, saves, buttons)
+    stepTimeoutMs: number;
+  };
+}
+
+// A date, optionally with a time and a time zone, e.g. 2024-11-15 or 2024-11-15T09:00:00+07:00
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const DEFAULT_CONFIG: SubmitConfig = {
+  providers: {
+    default: {
+      type: 'openai',
+      model: 'gpt-4',
+      apiKeyEnv: 'OPENAI_API_KEY',
+    },
+  },
+  structuredOutput: {
+    maxRepairs: 2,
+  },
+  resilience: {
+    retries: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    timeoutMs: 180000,
+  },
+  summary: {
+    budgetTokens: 4000,
+    chunkTokens: 3000,
+  },
+  walker: {
+    include: [],
+    exclude: [],
+    maxFileBytes: 200 * 1024,
+    maxTotalBytes: 5 * 1024 * 1024,
+  },
+  secrets: {
+    onFound: 'redact',
+    patterns: [],
+    allow: [],
+    entropyThreshold: 4.2,
+  },
+  claims: {
+    onUnsupported: 'flag',
+    allow: [],
+  },
+  history: {
+    maxPreEventShare: 0.5,
+    maxCommits: 2000,
+    excludeAuthors: ['\\[bot\\]', '^dependabot', '^renovate', 'github-actions'],
+  },
+  prizes: {
+    sponsors: [],
+    exclude: [],
+    minConfidence: 0.5,
+    maxPrizes: 3,
+  },
+  screenshots: {
+    mode: 'auto',
+    viewports: [
+      { name: 'desktop', width: 1440, height: 900 },
+      { name: 'mobile', width: 390, height: 844 },
+    ],
+    runScripts: false,
+    install: true,
+    installTimeoutMs: 300000,
+    startTimeoutMs: 120000,
+  },
+  video: {
+    minSeconds: 120,
+    maxSeconds: 240,
+    width: 1920,
+    height: 1080,
+    fps: 30,
+    wordsPerMinute: 150,
+    sceneWords: 50,
+    ffmpegPath: 'ffmpeg',
+    ffprobePath: 'ffprobe',
+    narration: {
+      type: 'silent',
+    },
+  },
+  publish: {
+    baseUrl: 'https://api.github.com',
+    tokenEnv: 'GITHUB_TOKEN',
+    branch: 'hackathon-submit/readme',
+    includeImages: true,
+    draft: false,
+  },
+  submission: {
+    form: path.join(__dirname, '..', 'forms', 'ethglobal-bangkok.json'),
+    stepTimeoutMs: 120000,
+  },
+};
+
+// Helper function to load submit.config.json (or $SUBMIT_CONFIG) merged over defaults
+export function loadConfig(configPath?: string, logger: Logger = console): SubmitConfig {
+  const resolvedPath = path.resolve(
+    configPath || process.env.SUBMIT_CONFIG || 'submit.config.json'
+  );
+
+  let fileConfig: Partial<SubmitConfig> = {};
+  if (fs.existsSync(resolvedPath)) {
+    try {
+      fileConfig = JSON.parse(fs.readFileSync(resolvedPath, 'utf8'));
+    } catch (error) {
+      logger.error(`Error reading config file ${resolvedPath}:`, error);
+      throw error;
+    }
+  } else if (configPath || process.env.SUBMIT_CONFIG) {
+    throw new Error(`Config file not found: ${resolvedPath}`);
+  }
+
+  const config: SubmitConfig = {
+    ...DEFAULT_CONFIG,
+    ...fileConfig,
+    providers: {
+      ...DEFAULT_CONFIG.providers,
+      ...fileConfig.providers,
+      default: {
+        ...DEFAULT_CONFIG.providers.default,
+        ...fileConfig.providers?.default,
+      },
+    },
+    structuredOutput: {
+      ...DEFAULT_CONFIG.structuredOutput,
+      ...fileConfig.structuredOutput,
+    },
+    resilience: {
+      ...DEFAULT_CONFIG.resilience,
+      ...fileConfig.resilience,
+    },
+    summary: {
+      ...DEFAULT_CONFIG.summary,
+      ...fileConfig.summary,
+    },
+    walker: {
+      ...DEFAULT_CONFIG.walker,
+      ...fileConfig.walker,
+    },
+    secrets: {
+      ...DEFAULT_CONFIG.secrets,
+      ...fileConfig.secrets,
+    },
+    claims: {
+      ...DEFAULT_CONFIG.claims,
+      ...fileConfig.claims,
+    },
+    history: {
+      ...DEFAULT_CONFIG.history,
+      ...fileConfig.history,
+    },
+    prizes: {
+      ...DEFAULT_CONFIG.prizes,
+      ...fileConfig.prizes,
+    },
+    screenshots: {
+      ...DEFAULT_CONFIG.screenshots,
+      ...fileConfig.screenshots,
+    },
+    video: {
+      ...DEFAULT_CONFIG.video,
+      ...fileConfig.video,
+      narration: {
+        ...DEFAULT_CONFIG.video.narration,
+        ...fileConfig.video?.narration,
+      },
+    },
+    publish: {
+      ...DEFAULT_CONFIG.publish,
+      ...fileConfig.publish,
+    },
+    submission: {
+      ...DEFAULT_CONFIG.submission,
+      ...fileConfig.submission,
+    },
+  };
+
+  // Environment overrides for the default provider, handy in CI
+  if (process.env.LLM_PROVIDER) {
+    config.providers.default.type = process.env
+      .LLM_PROVIDER as ProviderConfig['type'];
+  }
+  if (process.env.LLM_BASE_URL) {
+    config.providers.default.baseURL = process.env.LLM_BASE_URL;
+  }
+  if (process.env.LLM_MODEL) {
+    config.providers.default.model = process.env.LLM_MODEL;
+  }
+
+  validateEventWindow(config.history);
+  return config;
+}
+
+// Helper function to check the hackathon window up front, rather than after
+// the repository was checked out
+function validateEventWindow(history: HistoryOptions): void {
+  for (const key of ['eventStart', 'eventEnd'] as const) {
+    const date = history[key];
+    if (date !== undefined && (!ISO_DATE.test(date) || Number.isNaN(Date.parse(date)))) {
+      throw new Error(`history.${key} must be an ISO date, e.g. "2024-11-15T09:00:00+07:00", got "${date}"`);
+    }
+  }
+  if (history.eventStart && history.eventEnd && Date.parse(history.eventEnd) < Date.parse(history.eventStart)) {
+    throw new Error(`history.eventEnd (${history.eventEnd}) is before history.eventStart (${history.eventStart})`);
+  }
+}
+
+// Helper function to apply provider and model overrides to the default and every step's provider
+export function applyProviderOverrides(config: SubmitConfig, overrides: ProviderOverrides): void {
+  const targets = [
+    config.providers.default,
+    ...PIPELINE_STEPS.map((step) => config.providers[step]).filter(
+      (stepConfig): stepConfig is ProviderConfig => Boolean(stepConfig)
+    ),
+  ];
+  for (const target of targets) {
+    if (overrides.provider) {
+      target.type = overrides.provider;
+    }
+    if (overrides.model) {
+      target.model = overrides.model;
+    }
+    if (overrides.imageModel) {
+      target.imageModel = overrides.imageModel;
+    }
+    if (overrides.llmBaseUrl) {
+      target.baseURL = overrides.llmBaseUrl;
+    }
+  }
+}
+
+// Helper function to get the provider config for one step, falling back to the default
+export function getStepProviderConfig(
+  config: SubmitConfig,
+  step: PipelineStep
+): ProviderConfig {
+  const stepConfig = config.providers[step];
+  if (!stepConfig) {
+    return config.providers.default;
+  }
+  // A step may only override the model, so inherit the rest when the type matches
+  if (!stepConfig.type || stepConfig.type === config.providers.default.type) {
+    return { ...config.providers.default, ...stepConfig };
+  }
+  return stepConfig;
+}
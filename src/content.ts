@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { ContentSpec } from './forms';
+import { LLMProvider } from './providers';
+import { Logger } from './artifacts';
+import { generateStructured } from './structured';
+
+// What the model knows about the project when writing form fields
+export interface ContentContext {
+  projectName: string;
+  briefDescription: string;
+  detailedDescription: string;
+  codeSummary: string;
+  // Contributors and timeline from git, for fields about the team and how it was built
+  history: string;
+}
+
+// Helper function to describe a spec's length limits in words
+function describeLength(spec: ContentSpec): string {
+  if (spec.maxChars !== undefined && spec.minChars > 0) {
+    return `between ${spec.minChars} and ${spec.maxChars} characters`;
+  }
+  if (spec.maxChars !== undefined) {
+    return `at most ${spec.maxChars} characters`;
+  }
+  return spec.minChars > 0 ? `at least ${spec.minChars} characters` : 'any length';
+}
+
+// Helper function to build the schema for one field. Messages ask for a rewrite
+// because the repair loop feeds them back to the model verbatim.
+function fieldContentSchema(spec: ContentSpec, otherFields: Record<string, string>) {
+  return z
+    .string()
+    .trim()
+    .superRefine((text, ctx) => {
+      if (text.length < spec.minChars) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `The text is ${text.length} characters but must be at least ${spec.minChars}. Expand it with more concrete detail.`,
+        });
+      }
+      if (spec.maxChars !== undefined && text.length > spec.maxChars) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `The text is ${text.length} characters but must be at most ${spec.maxChars}. Rewrite it more concisely as complete sentences; do not cut it off.`,
+        });
+      }
+      for (const [name, other] of Object.entries(otherFields)) {
+        if (other.trim() === text) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `The text is identical to the ${name} field. Write content specific to this field's purpose.`,
+          });
+        }
+      }
+    });
+}
+
+// Helper function to write one form field to its spec
+async function generateField(
+  provider: LLMProvider,
+  name: string,
+  spec: ContentSpec,
+  specs: Record<string, ContentSpec>,
+  written: Record<string, string>,
+  context: ContentContext,
+  maxRepairs: number,
+  logger: Logger
+): Promise<string> {
+  const otherPurposes = Object.entries(specs)
+    .filter(([otherName]) => otherName !== name)
+    .map(([otherName, other]) => `- ${otherName}: ${other.purpose}`)
+    .join('\n');
+
+  const prompt = `Write the "${name}" field of a hackathon project submission form.
+
+Purpose of this field: ${spec.purpose}
+Length: ${describeLength(spec)}, including spaces.
+Tone: ${spec.tone}
+${otherPurposes ? `\nOther fields of the form cover the following, so don't repeat their content:\n${otherPurposes}\n` : ''}
+Project name: ${context.projectName}
+Brief description: ${context.briefDescription}
+
+Detailed description:
+${context.detailedDescription}
+
+Codebase summary:
+${context.codeSummary}
+
+Development history (from git):
+${context.history}
+
+Output only the text of the field, without a heading, quotes or any additional text.`;
+
+  try {
+    return await generateStructured(
+      provider,
+      [
+        {
+          role: 'system',
+          content: 'You are an assistant that writes hackathon submission texts that fit the form they are entered into.',
+        },
+        { role: 'user', content: prompt },
+      ],
+      fieldContentSchema(spec, written),
+      { format: 'text', label: `Form field ${name}`, maxRepairs, logger }
+    );
+  } catch (error) {
+    logger.error(`Error generating form field ${name}:`, error);
+    throw error;
+  }
+}
+
+// Helper function to generate every form field with a content spec, one at a
+// time so each one can be checked against the fields written before it
+export async function generateFormContent(
+  provider: LLMProvider,
+  specs: Record<string, ContentSpec>,
+  context: ContentContext,
+  maxRepairs: number,
+  logger: Logger = console
+): Promise<Record<string, string>> {
+  const written: Record<string, string> = {};
+  for (const [name, spec] of Object.entries(specs)) {
+    written[name] = await generateField(provider, name, spec, specs, written, context, maxRepairs, logger);
+    logger.log(`Form field ${name}: ${written[name].length} characters (${describeLength(spec)})`);
+  }
+  return written;
+}
@@ -0,0 +1,534 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { Locator, Page } from 'playwright';
+import { matchOptions, mentions } from './fuzzy';
+import { Logger } from './artifacts';
+
+// How to find an element; exactly one locator strategy per selector
+const SelectorSchema = z
+  .object({
+    role: z.string().optional(),
+    name: z.string().optional(),
+    placeholder: z.string().optional(),
+    label: z.string().optional(),
+    text: z.string().optional(),
+    id: z.string().optional(),
+    css: z.string().optional(),
+    // Regular expression the element's text must match, for css selectors
+    hasText: z.string().optional(),
+    // Pick the nth match (0-based) when a selector matches several elements
+    nth: z.number().int().nonnegative().optional(),
+    exact: z.boolean().optional(),
+  })
+  .refine(
+    (selector) =>
+      ['role', 'placeholder', 'label', 'text', 'id', 'css'].filter(
+        (key) => selector[key as keyof typeof selector] !== undefined
+      ).length === 1,
+    'A selector needs exactly one of role, placeholder, label, text, id or css'
+  );
+
+// A literal value or a reference to a generated artifact
+const ValueSchema = z.union([z.string(), z.object({ artifact: z.string() })]);
+
+// What a free-text field should contain; content.ts generates one artifact per spec
+const ContentSpecSchema = z
+  .object({
+    // What the field is for, shown to the model, e.g. "How the project is built"
+    purpose: z.string(),
+    minChars: z.number().int().nonnegative().default(0),
+    maxChars: z.number().int().positive().optional(),
+    tone: z.string().default('clear, concrete and professional'),
+  })
+  .refine(
+    (spec) => spec.maxChars === undefined || spec.maxChars >= spec.minChars,
+    'maxChars must not be smaller than minChars'
+  );
+
+// What an uploaded file must look like; images.ts converts images to match
+const AssetSpecSchema = z
+  .object({
+    // Exact size in pixels; images are cropped ('cover') or padded ('contain') to it
+    width: z.number().int().positive().optional(),
+    height: z.number().int().positive().optional(),
+    fit: z.enum(['cover', 'contain']).default('cover'),
+    format: z.enum(['png', 'jpeg', 'webp', 'mp4']).optional(),
+    maxBytes: z.number().int().positive().optional(),
+  })
+  .refine((spec) => (spec.width === undefined) === (spec.height === undefined), 'width and height go together');
+
+const FieldSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('fill'), selector: SelectorSchema, value: ValueSchema }),
+  z.object({
+    action: z.literal('select'),
+    selector: SelectorSchema,
+    value: ValueSchema,
+    // 'fuzzy' picks the <option>s closest to the values, e.g. "Postgres" -> "PostgreSQL"
+    match: z.enum(['exact', 'fuzzy']).default('exact'),
+    // Option chosen when no value matches, for fuzzy selects
+    fallback: z.string().optional(),
+  }),
+  // For list artifacts, {n} in the selector is replaced by the 1-based index
+  z.object({ action: z.literal('upload'), selector: SelectorSchema, value: ValueSchema }),
+  z.object({ action: z.literal('click'), selector: SelectorSchema }),
+  // Checks the elements whose text mentions one of the values, in the values'
+  // order, e.g. the partner prizes offered on the page. A value may list
+  // alternative names separated by |, e.g. "Base|Coinbase".
+  z.object({
+    action: z.literal('checkMatching'),
+    selector: SelectorSchema,
+    value: ValueSchema,
+    max: z.number().int().positive().optional(),
+  }),
+  z.object({ action: z.literal('check'), selector: SelectorSchema }),
+  z.object({ action: z.literal('wait'), ms: z.number().int().nonnegative() }),
+  // Waits for a concrete signal instead of a fixed delay
+  z.object({
+    action: z.literal('waitFor'),
+    state: z.enum(['visible', 'hidden', 'enabled', 'networkidle']),
+    selector: SelectorSchema.optional(),
+  }),
+]);
+
+const PageSchema = z.object({
+  name: z.string(),
+  // The page is skipped unless this element is visible
+  when: z.object({ visible: SelectorSchema }).optional(),
+  fields: z.array(FieldSchema),
+  // Button that submits the page and moves to the next one
+  next: SelectorSchema.optional(),
+});
+
+const ReadinessSchema = z.object({
+  // Elements shown while an upload is in progress; uploads wait until none is visible
+  uploadProgress: z.string().default('[role="progressbar"], progress'),
+  // Elements shown when the form rejects input; checked after every page
+  validationMessages: z
+    .string()
+    .default('[role="alert"]:not(:empty), [aria-invalid="true"], .error-message'),
+});
+
+export const FormDefinitionSchema = z.object({
+  name: z.string(),
+  // Appended to the base URL given on the command line
+  path: z.string(),
+  readiness: ReadinessSchema.default({}),
+  // Artifact name -> spec for the text generated specifically for this form
+  content: z.record(ContentSpecSchema).default({}),
+  // Artifact name -> requirements for the files uploaded from it
+  assets: z.record(AssetSpecSchema).default({}),
+  pages: z.array(PageSchema).min(1),
+});
+
+export type FormSelector = z.infer<typeof SelectorSchema>;
+export type ContentSpec = z.infer<typeof ContentSpecSchema>;
+export type AssetSpec = z.infer<typeof AssetSpecSchema>;
+export type FormField = z.infer<typeof FieldSchema>;
+export type FormPage = z.infer<typeof PageSchema>;
+export type FormDefinition = z.infer<typeof FormDefinitionSchema>;
+
+// Generated content and files the form fields can reference by name
+export type SubmissionArtifacts = Record<string, string | string[]>;
+
+export interface RunFormOptions {
+  // Open the Playwright inspector before every page so a human can step through
+  interactive: boolean;
+  // Upper bound for every wait, in milliseconds
+  timeoutMs: number;
+  // Where screenshots and traces of failed steps are written
+  failureDir: string;
+  // Where progress is reported, defaults to the console
+  logger?: Logger;
+}
+
+export function loadFormDefinition(formPath: string, logger: Logger = console): FormDefinition {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(formPath, 'utf8'));
+  } catch (error) {
+    logger.error(`Error reading form definition ${formPath}:`, error);
+    throw error;
+  }
+
+  const result = FormDefinitionSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `- ${issue.path.join('.')}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid form definition ${formPath}:\n${issues}`);
+  }
+  return result.data;
+}
+
+export function formUrl(baseUrl: string, form: FormDefinition): string {
+  return `${baseUrl.replace(/\/$/, '')}${form.path}`;
+}
+
+// Helper function to turn a selector from the definition into a Playwright locator
+export function locate(page: Page, selector: FormSelector, index?: number): Locator {
+  const fill = (value: string) => (index === undefined ? value : value.replace(/\{n\}/g, String(index)));
+  const exact = selector.exact;
+
+  let locator: Locator;
+  if (selector.role) {
+    locator = page.getByRole(selector.role as Parameters<Page['getByRole']>[0], {
+      name: selector.name ? fill(selector.name) : undefined,
+      exact,
+    });
+  } else if (selector.placeholder) {
+    locator = page.getByPlaceholder(fill(selector.placeholder), { exact });
+  } else if (selector.label) {
+    locator = page.getByLabel(fill(selector.label), { exact });
+  } else if (selector.text) {
+    locator = page.getByText(fill(selector.text), { exact });
+  } else if (selector.id) {
+    locator = page.locator(`#${fill(selector.id)}`);
+  } else {
+    locator = page.locator(fill(selector.css || ''));
+  }
+
+  if (selector.hasText) {
+    locator = locator.filter({ hasText: new RegExp(selector.hasText) });
+  }
+  if (selector.nth !== undefined) {
+    locator = locator.nth(selector.nth);
+  }
+  return locator;
+}
+
+// Helper function to resolve a field value against the artifacts
+function resolveValue(
+  value: z.infer<typeof ValueSchema>,
+  artifacts: SubmissionArtifacts
+): string | string[] {
+  if (typeof value === 'string') {
+    return value;
+  }
+  const artifact = artifacts[value.artifact];
+  if (artifact === undefined) {
+    throw new Error(`Form references unknown artifact "${value.artifact}"`);
+  }
+  return artifact;
+}
+
+// Helper function to list generated texts that don't fit their field. Texts are
+// never cut to fit; they have to be regenerated, see content.ts.
+export function checkContentLengths(form: FormDefinition, artifacts: SubmissionArtifacts): string[] {
+  const problems: string[] = [];
+  for (const [name, spec] of Object.entries(form.content)) {
+    const text = artifacts[name];
+    if (typeof text !== 'string') {
+      problems.push(`${name}: not generated`);
+    } else if (text.length < spec.minChars) {
+      problems.push(`${name}: ${text.length} characters, at least ${spec.minChars} required`);
+    } else if (spec.maxChars !== undefined && text.length > spec.maxChars) {
+      problems.push(`${name}: ${text.length} characters, at most ${spec.maxChars} allowed`);
+    }
+  }
+  return problems;
+}
+
+interface NetworkTracker {
+  waitForIdle(timeoutMs: number): Promise<void>;
+  dispose(): void;
+}
+
+// Helper function to count the page's in-flight requests, so waits can tell
+// when uploads and saves have settled rather than sleeping a fixed time
+function trackNetwork(page: Page, quietMs = 500): NetworkTracker {
+  let inFlight = 0;
+  let lastActivity = Date.now();
+  const started = () => {
+    inFlight++;
+    lastActivity = Date.now();
+  };
+  const finished = () => {
+    inFlight = Math.max(0, inFlight - 1);
+    lastActivity = Date.now();
+  };
+  page.on('request', started);
+  page.on('requestfinished', finished);
+  page.on('requestfailed', finished);
+
+  return {
+    async waitForIdle(timeoutMs) {
+      const deadline = Date.now() + timeoutMs;
+      while (inFlight > 0 || Date.now() - lastActivity < quietMs) {
+        if (Date.now() > deadline) {
+          throw new Error(`Network did not settle within ${timeoutMs}ms (${inFlight} requests in flight)`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+    },
+    dispose() {
+      page.off('request', started);
+      page.off('requestfinished', finished);
+      page.off('requestfailed', finished);
+    },
+  };
+}
+
+// Everything a step needs besides the field itself
+interface StepContext {
+  page: Page;
+  form: FormDefinition;
+  artifacts: SubmissionArtifacts;
+  timeoutMs: number;
+  network: NetworkTracker;
+  logger: Logger;
+}
+
+// Helper function to list what each form page would do, for dry runs
+export function formatFormPlan(form: FormDefinition, artifacts: SubmissionArtifacts): string {
+  const preview = (value: string | string[]) => {
+    const text = Array.isArray(value) ? value.join(', ') : value;
+    return text.length > 80 ? `${text.slice(0, 77).replace(/\s+/g, ' ')}...` : text.replace(/\s+/g, ' ');
+  };
+
+  const lines: string[] = [];
+  for (const formPage of form.pages) {
+    lines.push(`${formPage.name}${formPage.when ? ' (only when shown)' : ''}:`);
+    for (const field of formPage.fields) {
+      const value = 'value' in field ? ` = ${preview(resolveValue(field.value, artifacts))}` : '';
+      lines.push(`  - ${describeStep(field)}${value}`);
+    }
+    if (formPage.next) {
+      lines.push(`  - next ${JSON.stringify(formPage.next)}`);
+    }
+  }
+  for (const problem of checkContentLengths(form, artifacts)) {
+    lines.push(`! ${problem}`);
+  }
+  return lines.join('\n');
+}
+
+// Helper function to wait until a locator is enabled, failing with a readable message
+async function waitForEnabled(locator: Locator, timeoutMs: number) {
+  await locator.waitFor({ state: 'visible', timeout: timeoutMs });
+  const deadline = Date.now() + timeoutMs;
+  while (!(await locator.isEnabled())) {
+    if (Date.now() > deadline) {
+      throw new Error(`${locator} did not become enabled within ${timeoutMs}ms`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+}
+
+// Helper function to wait for an upload to finish: network idle and no progress indicator
+async function waitForUpload({ page, form, timeoutMs, network }: StepContext) {
+  await network.waitForIdle(timeoutMs);
+  const progress = page.locator(form.readiness.uploadProgress);
+  const deadline = Date.now() + timeoutMs;
+  while ((await progress.count()) > 0 && (await progress.first().isVisible())) {
+    if (Date.now() > deadline) {
+      throw new Error(`Upload still in progress after ${timeoutMs}ms`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+}
+
+// Helper function to fail with the form's own message when it rejected the input
+export async function checkValidationMessages(page: Page, form: FormDefinition) {
+  const messages = page.locator(form.readiness.validationMessages);
+  const texts: string[] = [];
+  for (let i = 0; i < (await messages.count()); i++) {
+    const message = messages.nth(i);
+    if (await message.isVisible()) {
+      texts.push(((await message.textContent()) || (await message.getAttribute('name')) || 'invalid field').trim());
+    }
+  }
+  if (texts.length > 0) {
+    throw new Error(`The form reported validation errors: ${texts.join('; ')}`);
+  }
+}
+
+// Helper function to map values onto the options a <select> actually offers.
+// Single selects get the best match; without any match the fallback is used.
+export async function matchSelectOptions(
+  select: Locator,
+  values: string[],
+  fallback: string | undefined,
+  logger: Logger
+): Promise<string[]> {
+  const options = (await select.locator('option').allTextContents()).map((option) => option.trim());
+  const multiple = await select.evaluate((element) => (element as HTMLSelectElement).multiple);
+  const matched = matchOptions(values, options);
+  logger.log(`Matched [${values.join(', ')}] to [${matched.join(', ')}]`);
+
+  if (matched.length > 0) {
+    return multiple ? matched : matched.slice(0, 1);
+  }
+  if (fallback === undefined) {
+    throw new Error(`None of [${values.join(', ')}] matches an option of the select, and it has no fallback`);
+  }
+  return [fallback];
+}
+
+async function runField(context: StepContext, field: FormField) {
+  const { page, artifacts, timeoutMs, logger } = context;
+  switch (field.action) {
+    case 'fill': {
+      const value = resolveValue(field.value, artifacts);
+      await locate(page, field.selector).fill(Array.isArray(value) ? value.join('\n') : value);
+      break;
+    }
+    case 'select': {
+      const value = resolveValue(field.value, artifacts);
+      const select = locate(page, field.selector);
+      let labels = Array.isArray(value) ? value : [value];
+      if (field.match === 'fuzzy') {
+        labels = await matchSelectOptions(select, labels, field.fallback, logger);
+      }
+      await select.selectOption(labels.map((label) => ({ label })));
+      break;
+    }
+    case 'upload': {
+      const value = resolveValue(field.value, artifacts);
+      if (Array.isArray(value)) {
+        for (let i = 0; i < value.length; i++) {
+          // Directly set the input files without waiting for visibility
+          await locate(page, field.selector, i + 1).setInputFiles(value[i]);
+          await waitForUpload(context);
+        }
+      } else {
+        await locate(page, field.selector).setInputFiles(value);
+        await waitForUpload(context);
+      }
+      break;
+    }
+    case 'click':
+      await locate(page, field.selector).click();
+      break;
+    case 'checkMatching': {
+      const value = resolveValue(field.value, artifacts);
+      const options = locate(page, field.selector);
+      const labels = (await options.allTextContents()).map((label) => label.trim());
+      logger.log(`Options on the page: ${labels.join('; ') || '(none)'}`);
+      const checked = new Set<number>();
+      for (const name of Array.isArray(value) ? value : [value]) {
+        if (field.max !== undefined && checked.size >= field.max) {
+          break;
+        }
+        const alternatives = name.split('|');
+        const index = labels.findIndex(
+          (label, i) => !checked.has(i) && alternatives.some((alternative) => mentions(label, alternative))
+        );
+        if (index !== -1) {
+          await options.nth(index).check();
+          checked.add(index);
+          logger.log(`Checked "${labels[index]}" for ${name}`);
+        }
+      }
+      break;
+    }
+    case 'check':
+      await locate(page, field.selector).check();
+      break;
+    case 'wait':
+      await page.waitForTimeout(field.ms);
+      break;
+    case 'waitFor':
+      if (field.state === 'networkidle') {
+        await context.network.waitForIdle(timeoutMs);
+      } else if (!field.selector) {
+        throw new Error(`waitFor ${field.state} needs a selector`);
+      } else if (field.state === 'enabled') {
+        await waitForEnabled(locate(page, field.selector), timeoutMs);
+      } else {
+        await locate(page, field.selector).waitFor({ state: field.state, timeout: timeoutMs });
+      }
+      break;
+  }
+}
+
+// Helper function to describe a step for logs and failure file names
+function describeStep(field: FormField | undefined): string {
+  if (!field) {
+    return 'next';
+  }
+  const description = 'selector' in field && field.selector
+    ? `${field.action} ${JSON.stringify(field.selector)}`
+    : field.action;
+  if (field.action === 'select' && field.match === 'fuzzy') {
+    return `${description} (closest options${field.fallback !== undefined ? `, else ${field.fallback}` : ''})`;
+  }
+  return description;
+}
+
+// Helper function to save a screenshot and the page's trace when a step fails
+async function captureFailure(page: Page, failureDir: string, name: string, logger: Logger) {
+  fs.mkdirSync(failureDir, { recursive: true });
+  const screenshotPath = path.join(failureDir, `${name}.png`);
+  const tracePath = path.join(failureDir, `${name}-trace.zip`);
+  try {
+    await page.screenshot({ path: screenshotPath, fullPage: true });
+    await page.context().tracing.stopChunk({ path: tracePath });
+    logger.error(`Saved failure screenshot to ${screenshotPath} and trace to ${tracePath}`);
+  } catch (error) {
+    logger.error('Error capturing failure artifacts:', error);
+  }
+}
+
+// Helper function to fill in a submission form page by page from its definition
+export async function runForm(
+  page: Page,
+  form: FormDefinition,
+  artifacts: SubmissionArtifacts,
+  options: RunFormOptions
+): Promise<void> {
+  const problems = checkContentLengths(form, artifacts);
+  if (problems.length > 0) {
+    throw new Error(`Generated content does not fit the form:\n${problems.map((problem) => `- ${problem}`).join('\n')}`);
+  }
+
+  page.setDefaultTimeout(options.timeoutMs);
+  const network = trackNetwork(page);
+  const logger = options.logger || console;
+  const context: StepContext = { page, form, artifacts, timeoutMs: options.timeoutMs, network, logger };
+  // One trace chunk per page, kept only when a step on that page fails
+  await page.context().tracing.start({ screenshots: true, snapshots: true });
+
+  try {
+    for (const formPage of form.pages) {
+      if (options.interactive) {
+        await page.pause();
+      }
+
+      await network.waitForIdle(options.timeoutMs);
+      if (formPage.when && !(await locate(page, formPage.when.visible).isVisible())) {
+        logger.log(`Skipping form page ${formPage.name}`);
+        continue;
+      }
+
+      logger.log(`Filling form page ${formPage.name}`);
+      await page.context().tracing.startChunk({ title: formPage.name });
+      const steps = [...formPage.fields, undefined];
+      for (const [index, field] of steps.entries()) {
+        try {
+          if (field) {
+            await runField(context, field);
+          } else if (formPage.next) {
+            const next = locate(page, formPage.next);
+            await waitForEnabled(next, options.timeoutMs);
+            await next.click();
+            await network.waitForIdle(options.timeoutMs);
+            await checkValidationMessages(page, form);
+          }
+        } catch (error) {
+          logger.error(`Step ${index + 1} (${describeStep(field)}) on form page ${formPage.name} failed:`, error);
+          await captureFailure(page, options.failureDir, `${formPage.name}-step${index + 1}`, logger);
+          throw error;
+        }
+      }
+      await page.context().tracing.stopChunk();
+    }
+
+    if (options.interactive) {
+      await page.pause();
+    }
+  } finally {
+    network.dispose();
+    await page.context().tracing.stop();
+  }
+}
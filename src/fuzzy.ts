@@ -0,0 +1,74 @@
+// Helper function to reduce a name to comparable form: "Next.js" -> "next", "Node JS" -> "node".
+// Only a separated "js" is dropped, so "Erlang" and "Golang" stay whole.
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\(.*?\)/g, '')
+    .trim()
+    .replace(/[\s.-]+js$/, '')
+    .replace(/[^a-z0-9]+/g, '');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Helper function to score how alike two names are, from 0 to 1
+export function similarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) {
+    return 0;
+  }
+  if (left === right) {
+    return 1;
+  }
+  // "PostgreSQL" vs "Postgres", "MongoDB" vs "Mongo", but not "React" vs "React Native"
+  const [shorter, longer] = left.length < right.length ? [left, right] : [right, left];
+  if (shorter.length >= 4 && longer.startsWith(shorter) && longer.length - shorter.length <= 3) {
+    return 0.9;
+  }
+  return 1 - levenshtein(left, right) / longer.length;
+}
+
+// Helper function to find the options matching any of the names, best match first.
+// Each name picks at most one option, and only when it scores at least minScore.
+export function matchOptions(names: string[], options: string[], minScore = 0.8): string[] {
+  const matches: { option: string; score: number }[] = [];
+  for (const name of names) {
+    let best: { option: string; score: number } | undefined;
+    for (const option of options) {
+      const score = similarity(name, option);
+      if (score >= minScore && (!best || score > best.score)) {
+        best = { option, score };
+      }
+    }
+    if (best && !matches.some((match) => match.option === best!.option)) {
+      matches.push(best);
+    }
+  }
+  return matches.sort((a, b) => b.score - a.score).map((match) => match.option);
+}
+
+// Helper function to tell whether a text mentions a name as whole words,
+// e.g. "Best use of Chainlink CCIP" mentions "Chainlink" but not "Link"
+export function mentions(text: string, name: string): boolean {
+  const words = (value: string) => ` ${value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+  const needle = words(name);
+  if (needle.trim().length === 0) {
+    return false;
+  }
+  return words(text).includes(needle);
+}
@@ -0,0 +1,403 @@
+import fs from 'fs';
+import path from 'path';
+import { Logger } from './artifacts';
+import { FileSummary, moduleOf } from './condense';
+
+// A file or module of the dependency graph
+export interface GraphNode {
+  name: string;
+  files: number;
+  // 0 for nodes that import no other node; every node only imports lower layers,
+  // except within import cycles
+  layer: number;
+  dependsOn: string[];
+  usedBy: string[];
+  // e.g. "src/cli.ts: CLI script (shebang)", without the file for file nodes
+  entryPoints: string[];
+}
+
+export interface DependencyGraph {
+  files: GraphNode[];
+  modules: GraphNode[];
+  // Workspace package name -> directory, for monorepos
+  workspacePackages: Record<string, string>;
+}
+
+interface FileIndex {
+  files: Set<string>;
+  // Directory -> files directly in it
+  dirs: Map<string, string[]>;
+  // Workspace package name -> its entry file, or its directory when there is none
+  packages: Map<string, { dir: string; entry?: string }>;
+  // Module path from go.mod
+  goModule?: string;
+}
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte'];
+// Diagrams get unreadable beyond this; the most connected nodes are kept
+const MAX_DIAGRAM_NODES = 24;
+const MAX_OVERVIEW_NODES = 12;
+const MAX_OVERVIEW_DEPENDENCIES = 6;
+// Below this many modules the diagram is drawn per file
+const MIN_MODULES = 3;
+
+// Helper function to find the first of a path's candidate files that exists:
+// as is, with a script extension, TypeScript for a .js import, or an index file
+function findScript(base: string, index: FileIndex): string | undefined {
+  const normalized = path.posix.normalize(base).replace(/^\.\//, '');
+  const candidates = [
+    normalized,
+    ...SCRIPT_EXTENSIONS.map((extension) => `${normalized}${extension}`),
+    ...(/\.[mc]?js$/.test(normalized) ? ['.ts', '.tsx'].map((extension) => normalized.replace(/\.[mc]?js$/, extension)) : []),
+    ...SCRIPT_EXTENSIONS.map((extension) => `${normalized}/index${extension}`),
+  ];
+  return candidates.find((candidate) => index.files.has(candidate));
+}
+
+function resolveScriptImport(from: string, specifier: string, index: FileIndex): string | undefined {
+  if (specifier.startsWith('.')) {
+    return findScript(path.posix.join(path.posix.dirname(from), specifier), index);
+  }
+  // Path aliases most projects configure in tsconfig.json
+  const alias = specifier.match(/^[@~]\/(.*)$/);
+  if (alias) {
+    return findScript(`src/${alias[1]}`, index) || findScript(alias[1], index);
+  }
+  const name = [...index.packages.keys()]
+    .filter((packageName) => specifier === packageName || specifier.startsWith(`${packageName}/`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (name) {
+    const workspacePackage = index.packages.get(name)!;
+    const subpath = specifier.slice(name.length + 1);
+    return subpath
+      ? findScript(`${workspacePackage.dir}/${subpath}`, index) || findScript(`${workspacePackage.dir}/src/${subpath}`, index)
+      : workspacePackage.entry;
+  }
+  // Solidity imports are also relative to the project root
+  return from.endsWith('.sol') && index.files.has(specifier) ? specifier : undefined;
+}
+
+// Helper function to resolve "from .models import" and "import app.models"
+function resolvePythonImport(from: string, specifier: string, index: FileIndex): string | undefined {
+  const dots = specifier.match(/^\.*/)![0].length;
+  const modulePath = specifier.slice(dots).replace(/\./g, '/');
+  let bases: string[];
+  if (dots > 0) {
+    let dir = path.posix.dirname(from);
+    for (let i = 1; i < dots; i++) {
+      dir = path.posix.dirname(dir);
+    }
+    bases = [path.posix.join(dir, modulePath)];
+  } else {
+    bases = [modulePath, `src/${modulePath}`];
+  }
+  return bases
+    .flatMap((base) => [`${base}.py`, `${base}/__init__.py`].map((candidate) => path.posix.normalize(candidate)))
+    .find((candidate) => index.files.has(candidate));
+}
+
+// Helper function to resolve crate::, super:: and self:: paths to the module's file
+function resolveRustImport(from: string, specifier: string, index: FileIndex): string | undefined {
+  const [root, ...segments] = specifier.split('::');
+  let dir: string;
+  if (root === 'crate') {
+    const srcIndex = from.lastIndexOf('src/');
+    dir = srcIndex === -1 ? '' : from.slice(0, srcIndex + 3);
+  } else if (root === 'self' || root === 'super') {
+    dir = root === 'self' ? path.posix.dirname(from) : path.posix.dirname(path.posix.dirname(from));
+  } else {
+    return undefined;
+  }
+  // The path may end in an item rather than a module, so shorter prefixes are tried too
+  for (let length = segments.length; length > 0; length--) {
+    const base = path.posix.join(dir, ...segments.slice(0, length));
+    const match = [`${base}.rs`, `${base}/mod.rs`].find((candidate) => index.files.has(candidate));
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+}
+
+function resolveImport(from: string, specifier: string, index: FileIndex): string | undefined {
+  const extension = path.posix.extname(from);
+  if (extension === '.py') {
+    return resolvePythonImport(from, specifier, index);
+  }
+  if (extension === '.rs') {
+    return resolveRustImport(from, specifier, index);
+  }
+  if (extension === '.go') {
+    if (!index.goModule || !specifier.startsWith(`${index.goModule}/`)) {
+      return undefined;
+    }
+    const files = index.dirs.get(specifier.slice(index.goModule.length + 1)) || [];
+    return files.find((file) => file.endsWith('.go') && !file.endsWith('_test.go'));
+  }
+  if (extension === '.java') {
+    const suffix = specifier.replace(/\.\*$/, '').replace(/\./g, '/');
+    const files = [...index.files];
+    return specifier.endsWith('.*')
+      ? files.find((file) => path.posix.dirname(file).endsWith(suffix) && file.endsWith('.java'))
+      : files.find((file) => file === `${suffix}.java` || file.endsWith(`/${suffix}.java`));
+  }
+  return resolveScriptImport(from, specifier, index);
+}
+
+// Helper function to read the workspace packages and Go module of a monorepo
+// from its manifests, relative to dir
+function readWorkspace(dir: string, manifests: string[], index: FileIndex, logger: Logger) {
+  for (const manifest of manifests) {
+    const content = fs.readFileSync(path.join(dir, manifest), 'utf8');
+    const manifestDir = path.posix.dirname(manifest) === '.' ? '' : path.posix.dirname(manifest);
+    const prefix = manifestDir ? `${manifestDir}/` : '';
+    if (path.posix.basename(manifest) === 'go.mod' && !manifestDir) {
+      index.goModule = content.match(/^\s*module\s+(\S+)/m)?.[1];
+    }
+    if (path.posix.basename(manifest) !== 'package.json') {
+      continue;
+    }
+    try {
+      const manifestJson = JSON.parse(content);
+      if (typeof manifestJson.name !== 'string') {
+        continue;
+      }
+      // Built entry points usually have a source file of the same name
+      const declared = [manifestJson.source, manifestJson.main, manifestJson.module, manifestJson.types]
+        .filter((entry): entry is string => typeof entry === 'string')
+        .map((entry) => entry.replace(/^\.\//, '').replace(/^(dist|build|lib)\//, 'src/').replace(/\.d\.ts$/, ''));
+      const entry = [...declared, 'src/index', 'index']
+        .map((candidate) => findScript(`${prefix}${candidate}`, index))
+        .find(Boolean);
+      index.packages.set(manifestJson.name, { dir: manifestDir || '.', entry });
+    } catch (error) {
+      logger.error(`Error reading workspace package ${manifest}:`, error);
+    }
+  }
+}
+
+// Helper function to put each node one layer above the highest node it imports.
+// Imports back into a node still being visited are cycles and are ignored.
+function assignLayers(dependsOn: Map<string, string[]>): Map<string, number> {
+  const layers = new Map<string, number>();
+  const visiting = new Set<string>();
+  const visit = (node: string): number => {
+    if (layers.has(node)) {
+      return layers.get(node)!;
+    }
+    if (visiting.has(node)) {
+      return -1;
+    }
+    visiting.add(node);
+    const layer = Math.max(-1, ...(dependsOn.get(node) || []).map(visit)) + 1;
+    visiting.delete(node);
+    layers.set(node, layer);
+    return layer;
+  };
+  [...dependsOn.keys()].forEach(visit);
+  return layers;
+}
+
+// Helper function to turn edges between names into graph nodes with layers
+function buildNodes(
+  members: Map<string, string[]>,
+  edges: Map<string, Set<string>>,
+  entryPoints: Map<string, string[]>
+): GraphNode[] {
+  const dependsOn = new Map([...members.keys()].map((name) => [name, [...(edges.get(name) || [])].sort()]));
+  const layers = assignLayers(dependsOn);
+  return [...members].map(([name, files]) => ({
+    name,
+    files: files.length,
+    layer: layers.get(name) || 0,
+    dependsOn: dependsOn.get(name) || [],
+    usedBy: [...members.keys()].filter((other) => edges.get(other)?.has(name)).sort(),
+    entryPoints: files.flatMap((file) =>
+      (entryPoints.get(file) || []).map((entry) => (file === name ? entry : `${file}: ${entry}`))
+    ),
+  }));
+}
+
+// Helper function to build the file and module dependency graph from the walked
+// files' imports, resolving relative imports, path aliases, workspace packages
+// and each language's own module paths. manifests are relative to dir.
+export function buildDependencyGraph(
+  dir: string,
+  files: FileSummary[],
+  manifests: string[],
+  logger: Logger = console
+): DependencyGraph {
+  const index: FileIndex = { files: new Set(files.map((file) => file.path)), dirs: new Map(), packages: new Map() };
+  for (const file of files) {
+    const fileDir = path.posix.dirname(file.path) === '.' ? '' : path.posix.dirname(file.path);
+    index.dirs.set(fileDir, [...(index.dirs.get(fileDir) || []), file.path]);
+  }
+  readWorkspace(dir, manifests, index, logger);
+
+  const fileEdges = new Map<string, Set<string>>();
+  const entryPoints = new Map<string, string[]>();
+  for (const file of files) {
+    const targets = new Set<string>();
+    for (const specifier of file.imports || []) {
+      const target = resolveImport(file.path, specifier, index);
+      if (target && target !== file.path) {
+        targets.add(target);
+      }
+    }
+    fileEdges.set(file.path, targets);
+    if (file.entryPoints && file.entryPoints.length > 0) {
+      entryPoints.set(file.path, file.entryPoints);
+    }
+  }
+  for (const [name, workspacePackage] of index.packages) {
+    if (workspacePackage.entry && !entryPoints.has(workspacePackage.entry)) {
+      entryPoints.set(workspacePackage.entry, [`${name} package entry`]);
+    }
+  }
+
+  const moduleMembers = new Map<string, string[]>();
+  for (const file of files) {
+    const moduleName = moduleOf(file.path);
+    moduleMembers.set(moduleName, [...(moduleMembers.get(moduleName) || []), file.path]);
+  }
+  const moduleEdges = new Map<string, Set<string>>();
+  for (const [from, targets] of fileEdges) {
+    for (const target of targets) {
+      if (moduleOf(from) !== moduleOf(target)) {
+        moduleEdges.set(moduleOf(from), (moduleEdges.get(moduleOf(from)) || new Set()).add(moduleOf(target)));
+      }
+    }
+  }
+
+  return {
+    files: buildNodes(new Map(files.map((file) => [file.path, [file.path]])), fileEdges, entryPoints),
+    modules: buildNodes(moduleMembers, moduleEdges, entryPoints),
+    workspacePackages: Object.fromEntries([...index.packages].map(([name, { dir: packageDir }]) => [name, packageDir])),
+  };
+}
+
+// Helper function to pick what the diagram shows: modules, or files for small
+// repositories, keeping the most connected ones
+function diagramNodes(graph: DependencyGraph): { nodes: GraphNode[]; hidden: number; unit: string } {
+  const connected = (node: GraphNode) => node.dependsOn.length + node.usedBy.length;
+  const useModules = graph.modules.filter((node) => connected(node) > 0).length >= MIN_MODULES;
+  const candidates = (useModules ? graph.modules : graph.files).filter(
+    (node) => connected(node) > 0 || node.entryPoints.length > 0
+  );
+  const nodes = [...candidates]
+    .sort((a, b) => connected(b) - connected(a) || b.files - a.files || a.name.localeCompare(b.name))
+    .slice(0, MAX_DIAGRAM_NODES)
+    .sort((a, b) => b.layer - a.layer || a.name.localeCompare(b.name));
+  return { nodes, hidden: candidates.length - nodes.length, unit: useModules ? 'module' : 'file' };
+}
+
+function layerName(layer: number, top: number): string {
+  if (layer === 0) {
+    return top === 0 ? 'Code' : 'Foundation';
+  }
+  return layer === top ? 'Entry layer' : `Layer ${layer}`;
+}
+
+// Helper function to render the graph as a Mermaid flowchart, one subgraph per
+// layer with entry points highlighted
+export function renderMermaid(graph: DependencyGraph): string {
+  const { nodes } = diagramNodes(graph);
+  const ids = new Map(nodes.map((node, i) => [node.name, `n${i}`]));
+  const top = Math.max(0, ...nodes.map((node) => node.layer));
+  const label = (node: GraphNode) =>
+    `${node.name}${node.files > 1 ? `<br/>${node.files} files` : ''}`.replace(/"/g, '#quot;');
+
+  const lines = ['flowchart TD'];
+  for (let layer = top; layer >= 0; layer--) {
+    const members = nodes.filter((node) => node.layer === layer);
+    if (members.length === 0) {
+      continue;
+    }
+    lines.push(`  subgraph layer${layer}["${layerName(layer, top)}"]`);
+    lines.push(...members.map((node) => `    ${ids.get(node.name)}["${label(node)}"]`));
+    lines.push('  end');
+  }
+  for (const node of nodes) {
+    for (const dependency of node.dependsOn) {
+      if (ids.has(dependency)) {
+        lines.push(`  ${ids.get(node.name)} --> ${ids.get(dependency)}`);
+      }
+    }
+  }
+  const entries = nodes.filter((node) => node.entryPoints.length > 0).map((node) => ids.get(node.name));
+  if (entries.length > 0) {
+    lines.push('  classDef entry fill:#fde68a,stroke:#b45309', `  class ${entries.join(',')} entry`);
+  }
+  return lines.join('\n');
+}
+
+// Helper function to describe the main modules (or files) in a few lines, for
+// the README and the README prompt
+export function formatModuleOverview(graph: DependencyGraph): string {
+  const { nodes, unit } = diagramNodes(graph);
+  if (nodes.length < 2) {
+    return '';
+  }
+  const top = Math.max(0, ...nodes.map((node) => node.layer));
+  return nodes
+    .slice(0, MAX_OVERVIEW_NODES)
+    .map((node) => {
+      const parts = [`${unit === 'module' ? `${node.files} file${node.files === 1 ? '' : 's'}, ` : ''}${layerName(node.layer, top).toLowerCase()}`];
+      if (node.dependsOn.length > 0) {
+        const shown = node.dependsOn.slice(0, MAX_OVERVIEW_DEPENDENCIES).map((name) => `\`${name}\``);
+        const more = node.dependsOn.length - shown.length;
+        parts.push(`uses ${shown.join(', ')}${more > 0 ? ` and ${more} more` : ''}`);
+      }
+      if (node.entryPoints.length > 0) {
+        parts.push(`entry points: ${node.entryPoints.slice(0, 3).join('; ')}`);
+      }
+      return `- \`${node.name}\`: ${parts.join('; ')}`;
+    })
+    .join('\n');
+}
+
+// Helper function to build the README's Architecture section, empty when the
+// files don't import each other
+export function formatArchitectureSection(graph: DependencyGraph): string {
+  const { hidden, unit } = diagramNodes(graph);
+  const overview = formatModuleOverview(graph);
+  if (!overview) {
+    return '';
+  }
+  return [
+    '## Architecture',
+    '',
+    `How the ${unit}s depend on each other; arrows point from a ${unit} to the ones it imports, entry points are highlighted.`,
+    '',
+    '```mermaid',
+    renderMermaid(graph),
+    '```',
+    '',
+    overview,
+    ...(hidden > 0 ? ['', `${hidden} less connected ${unit}${hidden === 1 ? ' is' : 's are'} not shown.`] : []),
+    '',
+  ].join('\n');
+}
+
+// Helper function to put the Architecture section into a README: in place of
+// one the model wrote, else before the setup instructions, else at the end
+export function embedArchitectureSection(readme: string, section: string): string {
+  if (!section) {
+    return readme;
+  }
+  const lines = readme.split('\n');
+  const existing = lines.findIndex((line) => /^#{2,3}\s+architecture\b/i.test(line));
+  if (existing !== -1) {
+    const level = lines[existing].match(/^#+/)![0].length;
+    const next = lines.findIndex((line, i) => i > existing && new RegExp(`^#{1,${level}}\\s`).test(line));
+    const end = next === -1 ? lines.length : next;
+    return [...lines.slice(0, existing), section, ...lines.slice(end)].join('\n');
+  }
+  const before = lines.findIndex((line) => /^##\s+(installation|getting started|setup|quick ?start|usage)\b/i.test(line));
+  const anchor =
+    before !== -1 ? before : lines.findIndex((line) => /^##\s+(contributing|license)\b/i.test(line));
+  if (anchor === -1) {
+    return `${readme.trimEnd()}\n\n${section}`;
+  }
+  return [...lines.slice(0, anchor), section, ...lines.slice(anchor)].join('\n');
+}
@@ -0,0 +1,344 @@
+import { simpleGit, SimpleGit } from 'simple-git';
+import { Logger } from './artifacts';
+import { SecretFinding, SecretOptions, redactSecrets } from './secrets';
+import { RepositorySource, fetchHistory } from './source';
+
+export interface HistoryOptions {
+  // The hackathon's window as ISO dates, e.g. "2024-11-15T09:00:00+07:00",
+  // compared with author dates; eligibility is only checked when eventStart is set
+  eventStart?: string;
+  eventEnd?: string;
+  // Largest share of the current code that may predate eventStart
+  maxPreEventShare: number;
+  // Commits fetched and read at most, newest first
+  maxCommits: number;
+  // Regular expressions matched against "name <email>" of authors left out of the team, e.g. bots
+  excludeAuthors: string[];
+}
+
+export interface Contributor {
+  name: string;
+  email: string;
+  commits: number;
+  linesAdded: number;
+  linesDeleted: number;
+  // ISO dates
+  firstCommit: string;
+  lastCommit: string;
+}
+
+export interface TimelineDay {
+  // YYYY-MM-DD in the author's time zone
+  date: string;
+  commits: number;
+  linesAdded: number;
+  linesDeleted: number;
+  authors: string[];
+  subjects: string[];
+}
+
+export interface Eligibility {
+  status: 'eligible' | 'flagged' | 'unknown';
+  reasons: string[];
+  // Share of the current lines of code that already existed at eventStart
+  preEventShare?: number;
+  commitsBeforeStart: number;
+  commitsAfterEnd: number;
+}
+
+export interface HistoryReport {
+  commits: number;
+  // Older commits were not fetched or not read
+  truncated: boolean;
+  firstCommit?: string;
+  lastCommit?: string;
+  contributors: Contributor[];
+  timeline: TimelineDay[];
+  largestCommits: { sha: string; date: string; author: string; subject: string; linesAdded: number }[];
+  // Undefined when no event window is configured
+  eligibility?: Eligibility;
+  // Secrets redacted from commit subjects
+  secrets: SecretFinding[];
+}
+
+interface Commit {
+  sha: string;
+  name: string;
+  email: string;
+  date: string;
+  subject: string;
+  linesAdded: number;
+  linesDeleted: number;
+}
+
+// Lockfiles and vendored or built code say nothing about who wrote the project
+const NOT_AUTHORED = /(^|\/)(node_modules|vendor|dist|build|out|\.next)\/|(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb|Cargo\.lock|poetry\.lock|Pipfile\.lock|go\.sum)$|\.min\.(js|css)$/;
+const TIMELINE_SUBJECTS = 5;
+const NARRATIVE_DAYS = 20;
+
+// Helper function to add up the lines of a --numstat listing, skipping binary
+// files and files nobody wrote by hand
+function sumNumstat(lines: string[]): { added: number; deleted: number } {
+  let added = 0;
+  let deleted = 0;
+  for (const line of lines) {
+    const [add, del, file] = line.split('\t');
+    if (!file || add === '-' || NOT_AUTHORED.test(file)) {
+      continue;
+    }
+    added += Number(add) || 0;
+    deleted += Number(del) || 0;
+  }
+  return { added, deleted };
+}
+
+// Helper function to read the commits touching the analyzed directory, newest first
+async function readCommits(git: SimpleGit, pathspec: string[], maxCommits: number): Promise<Commit[]> {
+  const log = await git.raw([
+    'log',
+    '--no-merges',
+    `--max-count=${maxCommits}`,
+    '--format=%x1e%H%x1f%an%x1f%ae%x1f%aI%x1f%s',
+    '--numstat',
+    'HEAD',
+    ...pathspec,
+  ]);
+  return log
+    .split('\x1e')
+    .filter((entry) => entry.trim())
+    .map((entry) => {
+      const [header, ...numstat] = entry.split('\n');
+      const [sha, name, email, date, subject] = header.split('\x1f');
+      const { added, deleted } = sumNumstat(numstat.filter(Boolean));
+      return { sha, name, email: email.toLowerCase(), date, subject, linesAdded: added, linesDeleted: deleted };
+    });
+}
+
+// Helper function to tell authors apart by email, or by name for GitHub's
+// noreply addresses and the same person committing from several machines
+function authorKey(commit: Commit): string {
+  const noreply = commit.email.match(/^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/);
+  return noreply ? noreply[1].toLowerCase() : commit.name.toLowerCase();
+}
+
+function buildContributors(commits: Commit[]): Contributor[] {
+  const byAuthor = new Map<string, Contributor>();
+  // Oldest first, so each contributor is named as in their latest commit
+  for (const commit of [...commits].reverse()) {
+    const key = authorKey(commit);
+    const contributor = byAuthor.get(key) || {
+      name: commit.name,
+      email: commit.email,
+      commits: 0,
+      linesAdded: 0,
+      linesDeleted: 0,
+      firstCommit: commit.date,
+      lastCommit: commit.date,
+    };
+    contributor.name = commit.name;
+    contributor.commits++;
+    contributor.linesAdded += commit.linesAdded;
+    contributor.linesDeleted += commit.linesDeleted;
+    contributor.lastCommit = commit.date;
+    byAuthor.set(key, contributor);
+  }
+  return [...byAuthor.values()].sort((a, b) => b.commits - a.commits || b.linesAdded - a.linesAdded);
+}
+
+function buildTimeline(commits: Commit[]): TimelineDay[] {
+  const byDay = new Map<string, TimelineDay>();
+  for (const commit of [...commits].reverse()) {
+    const date = commit.date.slice(0, 10);
+    const day = byDay.get(date) || { date, commits: 0, linesAdded: 0, linesDeleted: 0, authors: [], subjects: [] };
+    day.commits++;
+    day.linesAdded += commit.linesAdded;
+    day.linesDeleted += commit.linesDeleted;
+    if (!day.authors.includes(commit.name)) {
+      day.authors.push(commit.name);
+    }
+    if (day.subjects.length < TIMELINE_SUBJECTS) {
+      day.subjects.push(commit.subject);
+    }
+    byDay.set(date, day);
+  }
+  return [...byDay.values()];
+}
+
+// Helper function to estimate how much of the current code already existed at
+// the event start: the lines at the last commit before it, minus the lines
+// deleted since, against everything added since
+async function preEventShare(git: SimpleGit, boundary: string, pathspec: string[]): Promise<number> {
+  const emptyTree = (await git.raw(['hash-object', '-t', 'tree', '/dev/null'])).trim();
+  const before = sumNumstat((await git.raw(['diff', '--numstat', '--no-renames', emptyTree, boundary, ...pathspec])).split('\n'));
+  const since = sumNumstat((await git.raw(['diff', '--numstat', '--no-renames', boundary, 'HEAD', ...pathspec])).split('\n'));
+  const surviving = Math.max(0, before.added - since.deleted);
+  const total = surviving + since.added;
+  return total === 0 ? 0 : surviving / total;
+}
+
+// Dates are author dates throughout, as in the report: a rebase changes the
+// committer date of every commit it replays. read are all the commits read,
+// commits those of the team.
+async function checkEligibility(
+  git: SimpleGit,
+  read: Commit[],
+  commits: Commit[],
+  complete: boolean,
+  pathspec: string[],
+  options: HistoryOptions
+): Promise<Eligibility> {
+  const start = Date.parse(options.eventStart!);
+  const end = options.eventEnd ? Date.parse(options.eventEnd) : undefined;
+  const eligibility: Eligibility = {
+    status: 'eligible',
+    reasons: [],
+    commitsBeforeStart: commits.filter((commit) => Date.parse(commit.date) < start).length,
+    commitsAfterEnd: end === undefined ? 0 : commits.filter((commit) => Date.parse(commit.date) > end).length,
+  };
+
+  // The code as it was at the start is that of the newest commit written before it
+  const boundary = read.find((commit) => Date.parse(commit.date) < start);
+  if (boundary) {
+    eligibility.preEventShare = await preEventShare(git, boundary.sha, pathspec);
+    if (eligibility.preEventShare > options.maxPreEventShare) {
+      eligibility.status = 'flagged';
+      eligibility.reasons.push(
+        `${Math.round(eligibility.preEventShare * 100)}% of the code already existed before the event started (at most ${Math.round(options.maxPreEventShare * 100)}% allowed)`
+      );
+    } else if (eligibility.commitsBeforeStart > 0) {
+      eligibility.reasons.push(
+        `${plural(eligibility.commitsBeforeStart, 'commit')} ${eligibility.commitsBeforeStart === 1 ? 'predates' : 'predate'} the event, ${Math.round(eligibility.preEventShare * 100)}% of the current code`
+      );
+    }
+  } else if (!complete) {
+    // The oldest commit fetched is after the start, but older ones may exist
+    eligibility.status = 'unknown';
+    eligibility.reasons.push(`Only the latest ${commits.length} commits were read; raise history.maxCommits`);
+  }
+
+  if (eligibility.commitsAfterEnd > 0) {
+    eligibility.status = 'flagged';
+    eligibility.reasons.push(
+      `${eligibility.commitsAfterEnd} commit${eligibility.commitsAfterEnd === 1 ? ' was' : 's were'} made after the event ended`
+    );
+  }
+  return eligibility;
+}
+
+// Helper function to read the repository's history: who built it, when, and
+// whether it fits the hackathon window. Shallow checkouts are deepened first.
+// With secret options, secrets are redacted from commit subjects, which end up
+// in prompts. Returns undefined outside git.
+export async function analyzeHistory(
+  source: RepositorySource,
+  options: HistoryOptions,
+  secrets?: SecretOptions,
+  logger: Logger = console
+): Promise<HistoryReport | undefined> {
+  if (!source.commit) {
+    return undefined;
+  }
+  try {
+    const git = simpleGit(source.root);
+    const fetched = await fetchHistory(source, options.maxCommits, logger);
+    const pathspec = source.spec.subdir ? ['--', source.spec.subdir] : [];
+    const excluded = options.excludeAuthors.map((pattern) => new RegExp(pattern, 'i'));
+    const read = await readCommits(git, pathspec, options.maxCommits);
+    const complete = fetched && read.length < options.maxCommits;
+    const commits = read.filter((commit) => !excluded.some((pattern) => pattern.test(`${commit.name} <${commit.email}>`)));
+    const findings: SecretFinding[] = [];
+    if (secrets) {
+      for (const commit of commits) {
+        const redaction = redactSecrets(commit.subject, `commit ${commit.sha.slice(0, 7)}`, secrets);
+        commit.subject = redaction.content;
+        findings.push(...redaction.findings);
+      }
+    }
+
+    return {
+      commits: commits.length,
+      truncated: !complete,
+      firstCommit: commits[commits.length - 1]?.date,
+      lastCommit: commits[0]?.date,
+      contributors: buildContributors(commits),
+      timeline: buildTimeline(commits),
+      largestCommits: [...commits]
+        .sort((a, b) => b.linesAdded - a.linesAdded)
+        .slice(0, 5)
+        .map(({ sha, date, name, subject, linesAdded }) => ({ sha, date, author: name, subject, linesAdded })),
+      eligibility: options.eventStart ? await checkEligibility(git, read, commits, complete, pathspec, options) : undefined,
+      secrets: findings,
+    };
+  } catch (error) {
+    logger.error('Error reading repository history:', error);
+    throw error;
+  }
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+// Helper function to write the history as "how it's made" input for the
+// description and form prompts
+export function formatHistoryNarrative(report: HistoryReport | undefined): string {
+  if (!report || report.commits === 0) {
+    return 'No git history is available.';
+  }
+  const first = report.firstCommit!.slice(0, 10);
+  const last = report.lastCommit!.slice(0, 10);
+  const team = report.contributors.map((contributor) => `${contributor.name} (${plural(contributor.commits, 'commit')})`);
+  // The busiest days, in order, keep long histories short
+  const days = [...report.timeline]
+    .sort((a, b) => b.commits - a.commits)
+    .slice(0, NARRATIVE_DAYS)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return [
+    `Built from ${first} to ${last} in ${plural(report.commits, 'commit')}${report.truncated ? ' (latest commits only)' : ''} by ${team.join(', ')}.`,
+    '',
+    'Development timeline:',
+    ...days.map(
+      (day) => `- ${day.date}: ${plural(day.commits, 'commit')} by ${day.authors.join(', ')}: ${day.subjects.join('; ')}`
+    ),
+    '',
+    'Largest changes:',
+    ...report.largestCommits.map((commit) => `- ${commit.date.slice(0, 10)} ${commit.author}: ${commit.subject} (+${commit.linesAdded} lines)`),
+  ].join('\n');
+}
+
+// Helper function to render the history as a Markdown report for the run output
+export function formatHistoryReport(report: HistoryReport | undefined): string {
+  if (!report) {
+    return '# Git history\n\nThe source is not a git repository.\n';
+  }
+  const lines = [
+    '# Git history',
+    '',
+    `${plural(report.commits, 'commit')}${report.truncated ? ' (older history not read)' : ''} by ${plural(report.contributors.length, 'contributor')}${report.firstCommit ? `, ${report.firstCommit.slice(0, 10)} to ${report.lastCommit!.slice(0, 10)}` : ''}.`,
+  ];
+  if (report.eligibility) {
+    lines.push('', '## Eligibility', '', `Status: **${report.eligibility.status}**`);
+    lines.push(...report.eligibility.reasons.map((reason) => `- ${reason}`));
+  }
+  lines.push(
+    '',
+    '## Contributors',
+    '',
+    '| Name | Email | Commits | Lines added | Lines deleted | First commit | Last commit |',
+    '| --- | --- | --- | --- | --- | --- | --- |',
+    ...report.contributors.map(
+      (contributor) =>
+        `| ${contributor.name} | ${contributor.email} | ${contributor.commits} | ${contributor.linesAdded} | ${contributor.linesDeleted} | ${contributor.firstCommit.slice(0, 10)} | ${contributor.lastCommit.slice(0, 10)} |`
+    ),
+    '',
+    '## Timeline',
+    '',
+    ...report.timeline.map(
+      (day) =>
+        `- **${day.date}**: ${plural(day.commits, 'commit')}, +${day.linesAdded}/-${day.linesDeleted} lines by ${day.authors.join(', ')}. ${day.subjects.join('; ')}`
+    ),
+    ''
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,154 @@
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { Logger } from './artifacts';
+import { AssetSpec, FormDefinition, SubmissionArtifacts } from './forms';
+
+const IMAGE_FORMATS = ['png', 'jpeg', 'webp'];
+// Tried in order until the file fits the byte limit
+const QUALITY_STEPS = [90, 80, 70, 60, 50, 40];
+
+// Helper function to tell whether an upload is an image by its extension
+function isImageFile(filePath: string): boolean {
+  return /\.(png|jpe?g|webp|gif|avif|tiff?)$/i.test(filePath);
+}
+
+// Helper function to encode an image at one quality step; PNG is lossless, so
+// the first step only compresses harder and later ones reduce the palette
+async function encodeImage(image: sharp.Sharp, format: string, quality: number, step: number): Promise<Buffer> {
+  switch (format) {
+    case 'jpeg':
+      return image.flatten({ background: '#000000' }).jpeg({ quality, mozjpeg: true }).toBuffer();
+    case 'webp':
+      return image.webp({ quality }).toBuffer();
+    default:
+      return step === 0
+        ? image.png({ compressionLevel: 9 }).toBuffer()
+        : image.png({ compressionLevel: 9, palette: true, quality }).toBuffer();
+  }
+}
+
+// Helper function to crop or pad an image to the spec's size and encode it in
+// the spec's format, lowering quality until it fits maxBytes
+export async function processImage(inputPath: string, outputPath: string, spec: AssetSpec): Promise<string> {
+  const format = spec.format && IMAGE_FORMATS.includes(spec.format) ? spec.format : 'png';
+  let image = sharp(inputPath).rotate();
+  if (spec.width && spec.height) {
+    image = image.resize(spec.width, spec.height, {
+      fit: spec.fit,
+      // Crops keep the most interesting region, padding is black
+      position: spec.fit === 'cover' ? sharp.strategy.attention : 'centre',
+      background: { r: 0, g: 0, b: 0, alpha: format === 'jpeg' ? 1 : 0 },
+    });
+  }
+
+  for (const [step, quality] of QUALITY_STEPS.entries()) {
+    const buffer = await encodeImage(image.clone(), format, quality, step);
+    if (!spec.maxBytes || buffer.length <= spec.maxBytes) {
+      fs.writeFileSync(outputPath, buffer);
+      return outputPath;
+    }
+  }
+  throw new Error(
+    `${path.basename(inputPath)} is still over ${spec.maxBytes} bytes as ${format} at quality ${QUALITY_STEPS[QUALITY_STEPS.length - 1]}`
+  );
+}
+
+// Helper function to process every image a form's asset specs apply to into
+// outputDir, returning the artifacts pointing at the processed files. Files
+// without a spec, and videos, are passed through unchanged.
+export async function prepareAssets(
+  form: FormDefinition,
+  artifacts: SubmissionArtifacts,
+  outputDir: string,
+  logger: Logger = console
+): Promise<SubmissionArtifacts> {
+  const prepared: SubmissionArtifacts = { ...artifacts };
+  for (const [name, spec] of Object.entries(form.assets)) {
+    const value = artifacts[name];
+    if (value === undefined) {
+      continue;
+    }
+    const files = Array.isArray(value) ? value : [value];
+    const outputs: string[] = [];
+    for (const file of files) {
+      if (!isImageFile(file) || !fs.existsSync(file)) {
+        // Left for validateUploads to report
+        outputs.push(file);
+        continue;
+      }
+      const extension = spec.format && IMAGE_FORMATS.includes(spec.format) ? spec.format.replace('jpeg', 'jpg') : 'png';
+      const outputPath = path.join(outputDir, `${path.parse(file).name}.${extension}`);
+      try {
+        outputs.push(await processImage(file, outputPath, spec));
+      } catch (error) {
+        logger.error(`Error processing ${name} image ${file}:`, error);
+        throw error;
+      }
+    }
+    prepared[name] = Array.isArray(value) ? outputs : outputs[0];
+  }
+  return prepared;
+}
+
+// Helper function to check one upload against its spec, returning the problems found
+export async function checkUploadFile(label: string, filePath: string, spec: AssetSpec | undefined): Promise<string[]> {
+  if (!fs.existsSync(filePath)) {
+    return [`${label}: ${filePath} does not exist`];
+  }
+  const { size } = fs.statSync(filePath);
+  if (size === 0) {
+    return [`${label}: ${filePath} is empty`];
+  }
+
+  const problems: string[] = [];
+  if (spec?.maxBytes && size > spec.maxBytes) {
+    problems.push(`${label}: ${path.basename(filePath)} is ${size} bytes, over the ${spec.maxBytes}-byte limit`);
+  }
+  if (spec?.format === 'mp4' && !/\.mp4$/i.test(filePath)) {
+    problems.push(`${label}: ${path.basename(filePath)} must be an MP4 file`);
+  }
+  if (!isImageFile(filePath)) {
+    return problems;
+  }
+
+  try {
+    const metadata = await sharp(filePath).metadata();
+    if (spec?.format && IMAGE_FORMATS.includes(spec.format) && metadata.format !== spec.format) {
+      problems.push(`${label}: ${path.basename(filePath)} is ${metadata.format}, expected ${spec.format}`);
+    }
+    if (spec?.width && spec.height && (metadata.width !== spec.width || metadata.height !== spec.height)) {
+      problems.push(
+        `${label}: ${path.basename(filePath)} is ${metadata.width}x${metadata.height}, expected ${spec.width}x${spec.height}`
+      );
+    }
+  } catch (error) {
+    problems.push(`${label}: ${path.basename(filePath)} is not a readable image (${(error as Error).message})`);
+  }
+  return problems;
+}
+
+// Helper function to validate every file the form uploads, so a bad asset is
+// reported before the browser starts rather than by the portal
+export async function validateUploads(form: FormDefinition, artifacts: SubmissionArtifacts): Promise<string[]> {
+  const problems: string[] = [];
+  for (const formPage of form.pages) {
+    for (const field of formPage.fields) {
+      if (field.action !== 'upload') {
+        continue;
+      }
+      const name = typeof field.value === 'string' ? undefined : field.value.artifact;
+      const value = name === undefined ? field.value : artifacts[name];
+      if (value === undefined) {
+        problems.push(`${name}: no file`);
+        continue;
+      }
+      const spec = name === undefined ? undefined : form.assets[name];
+      const files = Array.isArray(value) ? value : [value as string];
+      for (const file of files) {
+        problems.push(...(await checkUploadFile(name || 'upload', file, spec)));
+      }
+    }
+  }
+  return problems;
+}
@@ -0,0 +1,37 @@
+// Library entry point: every pipeline stage as a typed function, see pipeline.ts.
+// The command line in run.ts is a thin wrapper over these.
+export {
+  analyzeRepository,
+  createPipeline,
+  generateDescription,
+  generateImages,
+  generateReadme,
+  generateVideoScript,
+  publishReadmePullRequest,
+  rehearseSubmission,
+  renderDemoVideo,
+  submitProject,
+} from './pipeline';
+export type {
+  Analysis,
+  ImageResult,
+  Pipeline,
+  PipelineOptions,
+  ReadmeResult,
+  RehearsalResult,
+  SubmissionResult,
+  VideoResult,
+} from './pipeline';
+export type { Logger, StageEvent } from './artifacts';
+export { applyProviderOverrides, loadConfig } from './config';
+export type { PipelineStep, ProviderOverrides, SubmitConfig } from './config';
+export { createProvider } from './providers';
+export type { ChatMessage, ImageOptions, LLMProvider, StepProviders } from './providers';
+export { ExternalCallError, StageError, TimeoutError } from './resilience';
+export type { PublishResult } from './publish';
+export type { RepositoryFacts } from './claims';
+export type { HistoryReport } from './history';
+export type { DependencyGraph } from './graph';
+export type { TechStack } from './techstack';
+export type { SponsorMatch } from './prizes';
+export type { RehearsalCheck } from './portal';
@@ -0,0 +1,160 @@
+import { execFile, spawn } from 'child_process';
+import fs from 'fs';
+import { promisify } from 'util';
+import OpenAI from 'openai';
+import { RetryOptions, RetryPolicy, withRetry } from './resilience';
+
+const execFileAsync = promisify(execFile);
+
+export interface NarrationConfig {
+  // 'silent' writes silence timed to the speaking rate, 'openai' uses the speech
+  // API, 'command' runs a local TTS such as espeak-ng or say
+  type: 'silent' | 'openai' | 'command';
+  model?: string;
+  voice?: string;
+  baseURL?: string;
+  apiKeyEnv?: string;
+  // For 'command': program and arguments, with {text} and {output} placeholders,
+  // e.g. ["espeak-ng", "-w", "{output}", "{text}"]
+  command?: string[];
+}
+
+export interface NarrationProvider {
+  name: string;
+  // Writes the spoken text as a WAV file and returns its duration in seconds
+  synthesize(text: string, outputPath: string): Promise<number>;
+}
+
+const SAMPLE_RATE = 22050;
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// Helper function to write a mono 16-bit PCM WAV file of silence
+export function writeSilentWav(outputPath: string, seconds: number) {
+  const samples = Math.round(seconds * SAMPLE_RATE);
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + samples * 2, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(samples * 2, 40);
+  fs.writeFileSync(outputPath, Buffer.concat([header, Buffer.alloc(samples * 2)]));
+}
+
+// Helper function to read a media file's duration in seconds with ffprobe
+export async function probeDuration(filePath: string, ffprobePath = 'ffprobe', signal?: AbortSignal): Promise<number> {
+  const { stdout } = await execFileAsync(
+    ffprobePath,
+    ['-v', 'error', '-show_entries', 'format=duration', '-of', 'default=noprint_wrappers=1:nokey=1', filePath],
+    { signal }
+  );
+  const duration = parseFloat(stdout.trim());
+  if (!Number.isFinite(duration)) {
+    throw new Error(`Could not read the duration of ${filePath}`);
+  }
+  return duration;
+}
+
+// Stand-in narrator: silence as long as the text would take to read aloud,
+// so the video is timed as if narrated and a voiceover can be recorded later
+export function createSilentNarrator(wordsPerMinute: number): NarrationProvider {
+  return {
+    name: 'silent',
+    async synthesize(text, outputPath) {
+      const seconds = (countWords(text) / wordsPerMinute) * 60;
+      writeSilentWav(outputPath, seconds);
+      return seconds;
+    },
+  };
+}
+
+export function createOpenAINarrator(
+  config: NarrationConfig,
+  ffprobePath: string,
+  retry: RetryPolicy,
+  hooks: RetryOptions = {}
+): NarrationProvider {
+  const openai = new OpenAI({
+    apiKey: process.env[config.apiKeyEnv || 'OPENAI_API_KEY'],
+    baseURL: config.baseURL,
+    maxRetries: 0,
+  });
+  const model = config.model || 'tts-1';
+  const voice = config.voice || 'alloy';
+
+  return {
+    name: `openai:${model}:${voice}`,
+    async synthesize(text, outputPath) {
+      const audio = await withRetry(
+        `openai:${model} speech`,
+        retry,
+        async (signal) => {
+          const response = await openai.audio.speech.create(
+            { model, voice, input: text, response_format: 'wav' },
+            { signal }
+          );
+          return Buffer.from(await response.arrayBuffer());
+        },
+        hooks
+      );
+      fs.writeFileSync(outputPath, audio);
+      return probeDuration(outputPath, ffprobePath, hooks.signal);
+    },
+  };
+}
+
+export function createCommandNarrator(config: NarrationConfig, ffprobePath: string, signal?: AbortSignal): NarrationProvider {
+  const [program, ...args] = config.command || [];
+  if (!program) {
+    throw new Error('Narration type "command" needs a command, e.g. ["espeak-ng", "-w", "{output}", "{text}"]');
+  }
+
+  return {
+    name: `command:${program}`,
+    async synthesize(text, outputPath) {
+      // Function replacers, so $ patterns in the script (a "$$" price) are kept as written
+      const resolvedArgs = args.map((arg) => arg.replace('{text}', () => text).replace('{output}', () => outputPath));
+      await new Promise<void>((resolve, reject) => {
+        const child = spawn(program, resolvedArgs, { stdio: ['ignore', 'ignore', 'pipe'], signal });
+        let errorOutput = '';
+        child.stderr?.on('data', (chunk: Buffer) => {
+          errorOutput += chunk.toString();
+        });
+        child.on('error', reject);
+        child.on('exit', (code) =>
+          code === 0 ? resolve() : reject(new Error(`${program} exited with code ${code}: ${errorOutput}`))
+        );
+      });
+      return probeDuration(outputPath, ffprobePath, signal);
+    },
+  };
+}
+
+export function createNarrator(
+  config: NarrationConfig,
+  wordsPerMinute: number,
+  ffprobePath: string,
+  retry: RetryPolicy,
+  hooks: RetryOptions = {}
+): NarrationProvider {
+  switch (config.type) {
+    case 'silent':
+      return createSilentNarrator(wordsPerMinute);
+    case 'openai':
+      return createOpenAINarrator(config, ffprobePath, retry, hooks);
+    case 'command':
+      return createCommandNarrator(config, ffprobePath, hooks.signal);
+    default:
+      throw new Error(`Unknown narration type: ${(config as NarrationConfig).type}`);
+  }
+}
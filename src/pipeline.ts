@@ -0,0 +1,1179 @@
+import { configureAloria } from 'aloria';
+import { chromium } from 'playwright';
+import { Octokit } from '@octokit/rest';
+import fs from 'fs';
+import path from 'path';
+import {
+  PipelineStep,
+  SubmitConfig,
+  applyProviderOverrides,
+  getStepProviderConfig,
+  loadConfig,
+} from './config';
+import { ImageSize, LLMProvider, StepProviders, createStepProviders } from './providers';
+import {
+  DetailedDescriptionSchema,
+  ReadmeResultSchema,
+  VideoScriptSchema,
+  describeObjectSchema,
+} from './schemas';
+import { generateStructured } from './structured';
+import { condenseCodebase } from './condense';
+import { formatSkipReport, walkRepository } from './walker';
+import { SourceSpec, formatSourceSpec, resolveSourceCommit, resolveSourceUrl, withRepositorySource } from './source';
+import {
+  Logger,
+  RunDirectory,
+  StageEvent,
+  closeRunDirectory,
+  hashContent,
+  openRunDirectory,
+  outputHash,
+  readRunFile,
+  runStage,
+  writeRunFile,
+} from './artifacts';
+import {
+  FormDefinition,
+  SubmissionArtifacts,
+  formUrl,
+  formatFormPlan,
+  loadFormDefinition,
+  runForm,
+} from './forms';
+import { generateFormContent } from './content';
+import { TechStack, detectTechStack, findManifests, formatTechStack, techStackArtifacts } from './techstack';
+import { SponsorMatch, formatPrizeReport, matchSponsors, resolveSponsors, selectSponsors } from './prizes';
+import { captureScreenshots } from './screenshots';
+import { renderVideo, splitIntoScenes } from './video';
+import { createNarrator } from './narration';
+import { prepareAssets, validateUploads } from './images';
+import { RetryPolicy, fetchBuffer } from './resilience';
+import { PublishContent, PublishResult, formatPullRequestBody, publishFiles, publishReadme } from './publish';
+import { SecretFinding, formatSecretReport } from './secrets';
+import { ClaimOptions, RepositoryFacts, collectFacts, formatClaimReport, verifyClaims } from './claims';
+import { HistoryReport, analyzeHistory, formatHistoryNarrative, formatHistoryReport } from './history';
+import {
+  DependencyGraph,
+  buildDependencyGraph,
+  embedArchitectureSection,
+  formatArchitectureSection,
+  formatModuleOverview,
+} from './graph';
+import { RehearsalCheck, checkRehearsal, formatRehearsalReport, startMockPortal } from './portal';
+
+// Helper function to check out the repository and build the codebase summary
+async function analyzeSource(
+  providers: StepProviders,
+  config: SubmitConfig,
+  sourceSpec: string,
+  logger: Logger
+): Promise<{
+  codeSummary: string;
+  source: SourceSpec & { commit?: string };
+  techStack: TechStack;
+  prizeMatches: SponsorMatch[];
+  secrets: SecretFinding[];
+  facts: RepositoryFacts;
+  history: HistoryReport | undefined;
+  graph: DependencyGraph;
+}> {
+  // Check out the repository and generate code summaries, skipping ignored,
+  // vendored, generated and oversized files. The checkout is always removed.
+  const { walkResult, source, techStack, prizeMatches, facts, history, graph } = await withRepositorySource(
+    sourceSpec,
+    async (repository) => {
+      logger.log(
+        `Analyzing ${formatSourceSpec(repository.spec)} at commit ${repository.commit || '(not a git repository)'}`
+      );
+      const walkResult = walkRepository(repository.dir, config.walker, config.secrets, logger);
+      const manifests = findManifests(repository.dir, config.walker, logger);
+      const techStack = detectTechStack(repository.dir, walkResult.files, manifests, logger);
+      return {
+        walkResult,
+        source: { ...repository.spec, commit: repository.commit },
+        techStack,
+        prizeMatches: matchSponsors(
+          repository.dir,
+          [...manifests, ...walkResult.files.map((file) => file.path)],
+          config.prizes,
+          config.secrets,
+          logger
+        ),
+        // What the generated README and description are checked against
+        facts: collectFacts(
+          repository.dir,
+          walkResult,
+          manifests,
+          techStack,
+          repository.spec,
+          config.walker.maxFileBytes,
+          logger
+        ),
+        history: await analyzeHistory(repository, config.history, config.secrets, logger),
+        graph: buildDependencyGraph(repository.dir, walkResult.files, manifests, logger),
+      };
+    },
+    logger
+  );
+  logger.log(formatSkipReport(walkResult));
+  logger.log(`Detected tech stack:\n${formatTechStack(techStack)}`);
+
+  // Secrets never reach a prompt: they are redacted from the files and commit
+  // subjects above, or the run stops here
+  const secrets = [...walkResult.secrets, ...(history?.secrets ?? [])];
+  if (secrets.length > 0) {
+    const locations = secrets.map((finding) => `  ${finding.file}:${finding.line} ${finding.detector} (${finding.preview})`);
+    if (config.secrets.onFound === 'abort') {
+      throw new Error(
+        `Found ${secrets.length} possible secret${secrets.length === 1 ? '' : 's'}, nothing was sent to the model:\n${locations.join('\n')}\nRemove them, add safe values to secrets.allow, or set secrets.onFound to "redact"`
+      );
+    }
+    logger.log(`Redacted ${secrets.length} possible secret${secrets.length === 1 ? '' : 's'}:\n${locations.join('\n')}`);
+  }
+
+  // Fit the summaries into the prompt budget
+  const codeSummary = await condenseCodebase(
+    providers.summary,
+    walkResult.files,
+    config.summary,
+    config.structuredOutput.maxRepairs,
+    logger
+  );
+
+  return { codeSummary, source, techStack, prizeMatches, secrets, facts, history, graph };
+}
+
+// Helper function to check generated Markdown against the repository facts
+// before it is saved or printed, stopping the run in abort mode
+function checkClaims(
+  label: string,
+  text: string,
+  facts: RepositoryFacts,
+  options: ClaimOptions,
+  logger: Logger
+): { text: string; report: string } {
+  const { text: checked, claims } = verifyClaims(text, facts, options);
+  if (claims.length > 0) {
+    const lines = claims.map((claim) => `  line ${claim.line} ${claim.kind} ${claim.claim}: ${claim.reason} (${claim.action})`);
+    if (options.onUnsupported === 'abort') {
+      throw new Error(
+        `The ${label} makes ${claims.length} claim${claims.length === 1 ? '' : 's'} the repository doesn't support:\n${lines.join('\n')}\nAdd true ones to claims.allow, or set claims.onUnsupported to "remove" or "flag"`
+      );
+    }
+    logger.log(`The ${label} makes ${claims.length} unsupported claim${claims.length === 1 ? '' : 's'}:\n${lines.join('\n')}`);
+  }
+  return { text: checked, report: formatClaimReport(label, claims) };
+}
+
+// Helper function to create README using the configured provider
+async function createReadme(
+  provider: LLMProvider,
+  codeSummary: string,
+  moduleOverview: string,
+  maxRepairs: number,
+  logger: Logger
+): Promise<{ projectName: string; briefDescription: string; readme: string }> {
+  try {
+    const data = await generateStructured(
+      provider,
+      [
+        {
+          role: 'system',
+          content: 'You are an assistant that writes detailed README files for GitHub repositories based on their codebase summaries. Output all your responses in valid JSON format.',
+        },
+        {
+          role: 'user',
+          content: `Based on the following codebase summary, generate a comprehensive README file for the repository. Additionally, provide the project's name and a brief description. Your response should be in the following JSON format without any additional text:
+
+\`\`\`json
+${describeObjectSchema(ReadmeResultSchema)}
+\`\`\`
+
+Codebase summary:
+${codeSummary}${
+            moduleOverview
+              ? `
+
+Main modules and how they depend on each other (an Architecture section with a diagram is added to the README automatically, so don't write one):
+${moduleOverview}`
+              : ''
+          }`,
+        },
+      ],
+      ReadmeResultSchema,
+      { format: 'json', label: 'README', maxRepairs, logger }
+    );
+
+    return {
+      projectName: data.projectName,
+      briefDescription: data.briefDescription,
+      readme: data.readmeContent,
+    };
+  } catch (error) {
+    logger.error('Error generating README:', error);
+    throw error;
+  }
+}
+
+// Helper function to create detailed description using the configured provider
+async function createDetailedDescription(
+  provider: LLMProvider,
+  codeSummary: string,
+  history: string,
+  maxRepairs: number,
+  logger: Logger
+): Promise<string> {
+  try {
+    return await generateStructured(
+      provider,
+      [
+        {
+          role: 'system',
+          content:
+            'You are an assistant that provides detailed descriptions of applications based on their codebase summaries.',
+        },
+        {
+          role: 'user',
+          content: `Based on the following codebase summary and development history, provide a very detailed description of the full application, including who built it and how it came together:
+
+Codebase summary:
+${codeSummary}
+
+Development history (from git):
+${history}`,
+        },
+      ],
+      DetailedDescriptionSchema,
+      { format: 'text', label: 'Detailed description', maxRepairs, logger }
+    );
+  } catch (error) {
+    logger.error('Error generating detailed description:', error);
+    throw error;
+  }
+}
+
+// Helper function to create a concise prompt for image generation
+function createImagePrompt(description: string): string {
+  // Split into sentences and take first few
+  const sentences = description.split(/[.!?]+/).filter(Boolean);
+  const shortDescription = sentences.slice(0, 3).join('. ');
+  
+  // Create a focused prompt
+  return `User interface screenshot of a web application: ${shortDescription.slice(0, 950)}`.trim();
+}
+async function fetchAndSaveImage(
+  imageUrl: string,
+  savePath: string,
+  retry: RetryPolicy,
+  logger: Logger,
+  signal?: AbortSignal
+): Promise<void> {
+  fs.writeFileSync(savePath, await fetchBuffer(imageUrl, retry, { logger, signal }));
+}
+async function createLogoAndCover(
+  provider: LLMProvider,
+  description: string,
+  coverSize: ImageSize,
+  outputDir: string,
+  retry: RetryPolicy,
+  logger: Logger,
+  signal?: AbortSignal
+): Promise<{ logoPath: string, coverPath: string }> {
+  try {
+    const logoPrompt = createImagePrompt(description) + " Logo";
+    const coverPrompt = createImagePrompt(description) + " Cover image";
+
+    // Rate limits and transient failures are retried by the provider
+    const [logoUrls, coverUrls] = await Promise.all([
+      provider.generateImages(logoPrompt, {
+        n: 1,
+        size: '1024x1024',
+      }),
+      provider.generateImages(coverPrompt, {
+        n: 1,
+        size: coverSize,
+      }),
+    ]);
+
+    // Save images to disk
+    const logoUrl = logoUrls[0];
+    const coverUrl = coverUrls[0];
+
+    const logoPath = path.join(outputDir, 'logo.png');
+    const coverPath = path.join(outputDir, 'cover.png');
+
+    if (logoUrl && coverUrl) {
+      await Promise.all([
+        fetchAndSaveImage(logoUrl, logoPath, retry, logger, signal),
+        fetchAndSaveImage(coverUrl, coverPath, retry, logger, signal),
+      ]);
+    } else {
+      throw new Error('Logo or cover URL is undefined');
+    }
+
+    return {
+      logoPath,
+      coverPath,
+    };
+  } catch (error) {
+    logger.error('Error generating images:', error);
+    throw error;
+  }
+}
+async function generateScreenshots(
+  provider: LLMProvider,
+  description: string,
+  count: number,
+  outputDir: string,
+  retry: RetryPolicy,
+  logger: Logger,
+  signal?: AbortSignal
+): Promise<string[]> {
+  try {
+    const screenshotPrompt = createImagePrompt(description) + " Screenshot";
+
+    const screenshotUrls = await provider.generateImages(screenshotPrompt, {
+      n: count,
+      size: '1024x1024',
+    });
+
+    const screenshotPaths: string[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const screenshotUrl = screenshotUrls[i];
+      if (screenshotUrl) {
+        const screenshotPath = path.join(outputDir, `screenshot${i + 1}.png`);
+        await fetchAndSaveImage(screenshotUrl, screenshotPath, retry, logger, signal);
+        screenshotPaths.push(screenshotPath);
+      } else {
+        logger.error(`Screenshot URL not found for index ${i}`);
+      }
+    }
+
+    return screenshotPaths;
+  } catch (error) {
+    logger.error('Error generating screenshots:', error as Error);
+    throw error;
+  }
+}
+// Helper function to screenshot the running project, falling back to generated
+// screenshots when it can't be started (unless screenshots.mode is 'capture')
+async function createScreenshots(
+  provider: LLMProvider,
+  config: SubmitConfig,
+  sourceSpec: string,
+  description: string,
+  count: number,
+  outputDir: string,
+  logger: Logger,
+  signal?: AbortSignal
+): Promise<string[]> {
+  if (count === 0) {
+    return [];
+  }
+  const { mode } = config.screenshots;
+  if (mode !== 'generate') {
+    try {
+      return await withRepositorySource(
+        sourceSpec,
+        (repository) => captureScreenshots(repository.dir, count, outputDir, config.screenshots, logger, signal),
+        logger
+      );
+    } catch (error) {
+      if (mode === 'capture' || signal?.aborted) {
+        throw error;
+      }
+      logger.error('Error capturing screenshots of the running project, generating them instead:', error);
+    }
+  }
+  return generateScreenshots(provider, description, count, outputDir, config.resilience, logger, signal);
+}
+
+// Add this function to generate the video script
+async function createVideoScript(
+  provider: LLMProvider,
+  detailedDescription: string,
+  maxRepairs: number,
+  logger: Logger
+): Promise<string> {
+  try {
+    // Estimate the number of words that can be spoken in 3 minutes
+    const estimatedWordCount = 450; // Average speaking rate is 150 words per minute
+
+    // Create a prompt for the model to generate the script
+    const prompt = `Please write a clear, engaging, and informative script for a video about the following application. The script should be approximately ${estimatedWordCount} words long, suitable for a voiceover that lasts about 3 minutes. The video should be between 2 and 4 minutes long.
+
+Application detailed description:
+${detailedDescription}
+
+The script should introduce the application, explain its key features, and highlight its benefits to the user. The tone should be professional and accessible to a general audience.
+
+Please output only the script, without any additional text or headers.`;
+
+    return await generateStructured(
+      provider,
+      [
+        {
+          role: 'system',
+          content: 'You are a creative assistant that writes video scripts based on application descriptions.',
+        },
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+      VideoScriptSchema,
+      { format: 'text', label: 'Video script', maxRepairs, logger }
+    );
+  } catch (error) {
+    logger.error('Error generating video script:', error);
+    throw error;
+  }
+}
+
+// Helper function to turn submission artifacts into stage inputs, comparing
+// uploads by content rather than path
+function artifactInputs<T extends { logo: string; cover: string; screenshots: string[]; video: string }>(artifacts: T) {
+  return {
+    ...artifacts,
+    logo: fileHash(artifacts.logo),
+    cover: fileHash(artifacts.cover),
+    screenshots: artifacts.screenshots.map(fileHash),
+    video: fileHash(artifacts.video),
+  };
+}
+
+// Helper function to find a file a user may have supplied, preferring the run directory
+function findAsset(run: RunDirectory, outputDir: string, filename: string): string {
+  const inRun = path.join(run.dir, filename);
+  return fs.existsSync(inRun) ? inRun : path.resolve(outputDir, filename);
+}
+
+// Helper function to find the screenshots to upload and show, skipping missing
+// ones since captured runs may have fewer than requested
+function findScreenshots(run: RunDirectory, outputDir: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => findAsset(run, outputDir, `screenshot${i + 1}.png`)).filter(
+    (screenshotPath) => fs.existsSync(screenshotPath)
+  );
+}
+
+// Helper function to hash a file for stage inputs, undefined when it doesn't exist
+function fileHash(filePath: string): string | undefined {
+  return fs.existsSync(filePath) ? hashContent(fs.readFileSync(filePath)) : undefined;
+}
+
+export interface PipelineOptions {
+  // Repository to work on, see source.ts for the accepted forms
+  source: string;
+  // Defaults to submit.config.json (or $SUBMIT_CONFIG) merged over the defaults
+  config?: SubmitConfig;
+  // Model clients by step, used in place of the ones the config describes
+  providers?: Partial<StepProviders>;
+  // Model for every text step, like --model
+  model?: string;
+  // GitHub client for publishing, in place of one authenticated from publish.tokenEnv
+  octokit?: Octokit;
+  // Where run directories are kept (default: ./output)
+  outputDir?: string;
+  // Screenshots to generate, upload and show in the video (default: 6)
+  screenshots?: number;
+  // Run every stage even when its inputs are unchanged
+  force?: boolean;
+  // Print results instead of writing files, and the form plan instead of submitting
+  dryRun?: boolean;
+  // Show the browser and pause before every form page
+  interactive?: boolean;
+  // Defaults to the console
+  logger?: Logger;
+  // Cancels the running stage's requests and processes, and stops the pipeline
+  signal?: AbortSignal;
+  onProgress?: (event: StageEvent) => void;
+}
+
+export interface Analysis {
+  codeSummary: string;
+  source: SourceSpec & { commit?: string };
+  techStack: TechStack;
+  prizeMatches: SponsorMatch[];
+  // Markdown report of the matching partner prizes
+  prizeReport: string;
+  // What the generated README and description are checked against
+  facts: RepositoryFacts;
+  // null when the source is not a git repository
+  history: HistoryReport | null;
+  graph: DependencyGraph;
+}
+
+export interface ReadmeResult {
+  projectName: string;
+  briefDescription: string;
+  readme: string;
+}
+
+// Absolute paths in the run directory
+export interface ImageResult {
+  logo?: string;
+  cover?: string;
+  screenshots: string[];
+}
+
+export interface VideoResult {
+  video: string;
+  captions: string;
+}
+
+export interface SubmissionResult {
+  url: string;
+  submittedAt: string;
+}
+
+export interface RehearsalResult {
+  passed: boolean;
+  checks: RehearsalCheck[];
+  // Markdown report, also saved as rehearsal.md
+  report: string;
+}
+
+// The stages of one repository and commit, sharing a run directory. Each stage
+// runs its prerequisites first and at most once per pipeline; stages whose
+// inputs are unchanged since an earlier run reuse its outputs.
+export interface Pipeline {
+  // Temporary on a dry run
+  runDir: string;
+  analyze(): Promise<Analysis>;
+  readme(): Promise<ReadmeResult>;
+  description(): Promise<string>;
+  videoScript(): Promise<string>;
+  // Nothing is generated on a dry run, the image prompt is printed instead
+  images(): Promise<ImageResult>;
+  // Rendered from the video script and whichever images exist, undefined on a dry run
+  video(): Promise<VideoResult | undefined>;
+  // undefined on a dry run, which prints the pull request instead
+  publish(): Promise<PublishResult | undefined>;
+  // Fills in the submission form at baseUrl, undefined on a dry run
+  submit(baseUrl: string): Promise<SubmissionResult | undefined>;
+  // Fills in a local mock of the submission portal and checks what it received
+  rehearse(): Promise<RehearsalResult>;
+  // Removes a dry run's temporary directory
+  close(): void;
+}
+
+// Helper function to open the run directory for a repository and set up its stages
+export async function createPipeline(options: PipelineOptions): Promise<Pipeline> {
+  const logger = options.logger || console;
+  let config = options.config || loadConfig(undefined, logger);
+  if (options.model) {
+    // The caller's config is left as it is
+    config = structuredClone(config);
+    applyProviderOverrides(config, { model: options.model });
+  }
+  const outputDir = options.outputDir || 'output';
+  const screenshotCount = options.screenshots ?? 6;
+
+  // Every external call reports retries to the logger and stops when the run is cancelled
+  const hooks = { logger, signal: options.signal };
+
+  // Initialize one model provider per pipeline step from the config, unless the
+  // caller passes its own
+  const providers = createStepProviders(config, hooks, options.providers);
+  const { maxRepairs } = config.structuredOutput;
+  // A client passed in is only known by its name
+  const providerInputs = (step: PipelineStep) =>
+    options.providers?.[step] ? { name: providers[step].name } : getStepProviderConfig(config, step);
+
+  // Everything for this repository and commit goes into one run directory, so
+  // steps whose inputs haven't changed are skipped when the run is repeated
+  const commit = await resolveSourceCommit(options.source, logger);
+  const runDir = openRunDirectory(outputDir, options.source, commit, {
+    force: Boolean(options.force),
+    dryRun: Boolean(options.dryRun),
+    logger,
+    signal: options.signal,
+    onProgress: options.onProgress,
+  });
+  if (!runDir.dryRun) {
+    logger.log(`Run directory: ${runDir.dir}`);
+  }
+  if (!commit) {
+    logger.log('Commit could not be resolved up front, every stage will run');
+  }
+
+  const once = <T>(fn: () => Promise<T>): (() => Promise<T>) => {
+    let result: Promise<T> | undefined;
+    return () => (result ??= fn());
+  };
+
+  const analyze = once(async (): Promise<Analysis> => {
+    const outputs = await runStage(
+      runDir,
+      'analyze',
+      {
+        source: options.source,
+        commit,
+        walker: config.walker,
+        secrets: config.secrets,
+        history: config.history,
+        summary: config.summary,
+        prizes: config.prizes,
+        provider: providerInputs('summary'),
+      },
+      async () => {
+        const { codeSummary, source, techStack, prizeMatches, secrets, facts, history, graph } = await analyzeSource(
+          providers,
+          config,
+          options.source,
+          logger
+        );
+        return {
+          summary: writeRunFile(runDir, 'summary.md', codeSummary),
+          source: writeRunFile(runDir, 'source.json', JSON.stringify(source, null, 2)),
+          techStack: writeRunFile(runDir, 'tech_stack.json', JSON.stringify(techStack, null, 2)),
+          prizes: writeRunFile(runDir, 'prizes.json', JSON.stringify(prizeMatches, null, 2)),
+          prizeReport: writeRunFile(runDir, 'prizes.md', formatPrizeReport(prizeMatches, config.prizes)),
+          secrets: writeRunFile(runDir, 'secrets.json', JSON.stringify(secrets, null, 2)),
+          secretReport: writeRunFile(runDir, 'secrets.md', formatSecretReport(secrets)),
+          facts: writeRunFile(runDir, 'facts.json', JSON.stringify(facts, null, 2)),
+          history: writeRunFile(runDir, 'history.json', JSON.stringify(history ?? null, null, 2)),
+          historyReport: writeRunFile(runDir, 'history.md', formatHistoryReport(history)),
+          graph: writeRunFile(runDir, 'graph.json', JSON.stringify(graph, null, 2)),
+          architecture: writeRunFile(runDir, 'architecture.md', formatArchitectureSection(graph)),
+        };
+      }
+    );
+    const analysis: Analysis = {
+      codeSummary: readRunFile(runDir, outputs.summary),
+      source: JSON.parse(readRunFile(runDir, outputs.source)),
+      techStack: JSON.parse(readRunFile(runDir, outputs.techStack)),
+      prizeMatches: JSON.parse(readRunFile(runDir, outputs.prizes)),
+      prizeReport: readRunFile(runDir, outputs.prizeReport),
+      facts: JSON.parse(readRunFile(runDir, outputs.facts)),
+      history: JSON.parse(readRunFile(runDir, outputs.history)),
+      graph: JSON.parse(readRunFile(runDir, outputs.graph)),
+    };
+    logger.log('Source:', formatSourceSpec(analysis.source));
+    logger.log('Commit:', analysis.source.commit || '(not a git repository)');
+    if (analysis.history?.eligibility) {
+      const { status, reasons } = analysis.history.eligibility;
+      logger.log(`Eligibility: ${status}${reasons.map((reason) => `\n  - ${reason}`).join('')}`);
+    }
+    return analysis;
+  });
+
+  const readme = once(async (): Promise<ReadmeResult> => {
+    const { codeSummary, source, facts, graph } = await analyze();
+    const outputs = await runStage(
+      runDir,
+      'readme',
+      {
+        summary: outputHash(runDir, 'analyze', 'summary'),
+        graph: outputHash(runDir, 'analyze', 'graph'),
+        facts: outputHash(runDir, 'analyze', 'facts'),
+        claims: config.claims,
+        provider: providerInputs('readme'),
+        maxRepairs,
+      },
+      async () => {
+        const result = await createReadme(providers.readme, codeSummary, formatModuleOverview(graph), maxRepairs, logger);
+        // The diagram is rendered from the graph rather than left to the model
+        const text = embedArchitectureSection(result.readme, formatArchitectureSection(graph));
+        const checked = checkClaims('README', text, facts, config.claims, logger);
+        return {
+          readme: writeRunFile(runDir, 'README.generated.md', checked.text),
+          claims: writeRunFile(runDir, 'readme_claims.md', checked.report),
+          project: writeRunFile(
+            runDir,
+            'project.json',
+            JSON.stringify({ projectName: result.projectName, briefDescription: result.briefDescription, source }, null, 2)
+          ),
+        };
+      }
+    );
+    const { projectName, briefDescription } = JSON.parse(readRunFile(runDir, outputs.project));
+    logger.log('Project Name:', projectName);
+    logger.log('Brief Description:', briefDescription);
+    return { projectName, briefDescription, readme: readRunFile(runDir, outputs.readme) };
+  });
+
+  const description = once(async (): Promise<string> => {
+    const { codeSummary, facts, history } = await analyze();
+    const outputs = await runStage(
+      runDir,
+      'description',
+      {
+        summary: outputHash(runDir, 'analyze', 'summary'),
+        history: outputHash(runDir, 'analyze', 'history'),
+        facts: outputHash(runDir, 'analyze', 'facts'),
+        claims: config.claims,
+        provider: providerInputs('description'),
+        maxRepairs,
+      },
+      async () => {
+        const text = await createDetailedDescription(
+          providers.description,
+          codeSummary,
+          formatHistoryNarrative(history ?? undefined),
+          maxRepairs,
+          logger
+        );
+        const checked = checkClaims('description', text, facts, config.claims, logger);
+        return {
+          description: writeRunFile(runDir, 'description.md', checked.text),
+          claims: writeRunFile(runDir, 'description_claims.md', checked.report),
+        };
+      }
+    );
+    return readRunFile(runDir, outputs.description);
+  });
+
+  const videoScript = once(async (): Promise<string> => {
+    const detailedDescription = await description();
+    const outputs = await runStage(
+      runDir,
+      'script',
+      { description: outputHash(runDir, 'description', 'description'), provider: providerInputs('videoScript'), maxRepairs },
+      async () => ({
+        script: writeRunFile(
+          runDir,
+          'video_script.txt',
+          await createVideoScript(providers.videoScript, detailedDescription, maxRepairs, logger)
+        ),
+      })
+    );
+    return readRunFile(runDir, outputs.script);
+  });
+
+  const images = once(async (): Promise<ImageResult> => {
+    const detailedDescription = await description();
+    if (runDir.dryRun) {
+      logger.log(`\n[dry run] Image prompt:\n${createImagePrompt(detailedDescription)}`);
+      return { screenshots: [] };
+    }
+    const descriptionHash = outputHash(runDir, 'description', 'description');
+    const imageOutputs = await runStage(
+      runDir,
+      'images',
+      { description: descriptionHash, provider: providerInputs('images') },
+      async () => {
+        // Generate the logo and cover and save them to the run directory. The
+        // cover is a banner, so it is generated wide where the model allows;
+        // the assets stage crops both to the form's exact sizes.
+        const coverSize = getStepProviderConfig(config, 'images').imageModel === 'dall-e-3' ? '1792x1024' : '1024x1024';
+        const { logoPath, coverPath } = await createLogoAndCover(
+          providers.images,
+          detailedDescription,
+          coverSize,
+          runDir.dir,
+          config.resilience,
+          logger,
+          options.signal
+        );
+        return { logo: path.basename(logoPath), cover: path.basename(coverPath) };
+      }
+    );
+
+    const screenshotOutputs = await runStage(
+      runDir,
+      'screenshots',
+      {
+        source: options.source,
+        commit,
+        options: config.screenshots,
+        count: screenshotCount,
+        // Only used when falling back to generated screenshots
+        description: descriptionHash,
+        provider: providerInputs('screenshots'),
+      },
+      async () => {
+        // There may be fewer screenshots than last time
+        for (const file of fs.readdirSync(runDir.dir)) {
+          if (/^screenshot\d+\.png$/.test(file)) {
+            fs.rmSync(path.join(runDir.dir, file));
+          }
+        }
+        const screenshotPaths = await createScreenshots(
+          providers.screenshots,
+          config,
+          options.source,
+          detailedDescription,
+          screenshotCount,
+          runDir.dir,
+          logger,
+          options.signal
+        );
+        return Object.fromEntries(
+          screenshotPaths.map((screenshotPath, i) => [`screenshot${i + 1}`, path.basename(screenshotPath)])
+        );
+      }
+    );
+    return {
+      logo: path.join(runDir.dir, imageOutputs.logo),
+      cover: path.join(runDir.dir, imageOutputs.cover),
+      screenshots: Object.values(screenshotOutputs).map((file) => path.join(runDir.dir, file)),
+    };
+  });
+
+  const video = once(async (): Promise<VideoResult | undefined> => {
+    const script = await videoScript();
+    if (runDir.dryRun) {
+      const scenes = splitIntoScenes(script, config.video.sceneWords);
+      logger.log(`\n[dry run] Video scenes (${scenes.length}):\n${scenes.map((scene, i) => `${i + 1}. ${scene}`).join('\n')}`);
+      return undefined;
+    }
+    // Hand-made images in the output directory are used like generated ones
+    const cover = findAsset(runDir, outputDir, 'cover.png');
+    const screenshots = findScreenshots(runDir, outputDir, screenshotCount);
+    const outputs = await runStage(
+      runDir,
+      'video',
+      {
+        script: outputHash(runDir, 'script', 'script'),
+        cover: fileHash(cover),
+        screenshots: screenshots.map(fileHash),
+        options: config.video,
+      },
+      async () => {
+        const narrator = createNarrator(
+          config.video.narration,
+          config.video.wordsPerMinute,
+          config.video.ffprobePath,
+          config.resilience,
+          hooks
+        );
+        const { videoPath, captionsPath, scenes, durationSeconds } = await renderVideo(
+          script,
+          { cover: fs.existsSync(cover) ? cover : undefined, screenshots },
+          runDir.dir,
+          narrator,
+          config.video,
+          logger,
+          options.signal
+        );
+        logger.log(`Rendered ${Math.round(durationSeconds)}s video with ${scenes.length} scenes`);
+        return {
+          video: path.basename(videoPath),
+          captions: path.basename(captionsPath),
+          scenes: writeRunFile(runDir, 'scenes.json', JSON.stringify(scenes, null, 2)),
+        };
+      }
+    );
+    return { video: path.join(runDir.dir, outputs.video), captions: path.join(runDir.dir, outputs.captions) };
+  });
+
+  const publish = once(async (): Promise<PublishResult | undefined> => {
+    const project = await readme();
+    const { source } = await analyze();
+    // Images are only committed when an earlier run or the user made them
+    const logoPath = findAsset(runDir, outputDir, 'logo.png');
+    const coverPath = findAsset(runDir, outputDir, 'cover.png');
+    const content: PublishContent = { ...project, source, logoPath, coverPath };
+    if (runDir.dryRun) {
+      const files = publishFiles(content, config.publish);
+      logger.log(`\n[dry run] Pull request from ${config.publish.branch}:\n${formatPullRequestBody(content, files, {})}`);
+      return undefined;
+    }
+    const outputs = await runStage(
+      runDir,
+      'publish',
+      {
+        readme: outputHash(runDir, 'readme', 'readme'),
+        project: outputHash(runDir, 'readme', 'project'),
+        logo: config.publish.includeImages ? fileHash(logoPath) : undefined,
+        cover: config.publish.includeImages ? fileHash(coverPath) : undefined,
+        options: config.publish,
+      },
+      async () => {
+        const result = await publishReadme(content, config.publish, config.resilience, options.octokit, hooks);
+        return {
+          pullRequest: writeRunFile(
+            runDir,
+            'pull_request.json',
+            JSON.stringify({ ...result, publishedAt: new Date().toISOString() }, null, 2)
+          ),
+        };
+      }
+    );
+    const result: PublishResult = JSON.parse(readRunFile(runDir, outputs.pullRequest));
+    logger.log('Pull request:', result.pullRequestUrl);
+    return result;
+  });
+
+  // The form's texts, converted uploads and artifacts, shared by submit and rehearse
+  const prepareSubmission = once(async () => {
+    const form = loadFormDefinition(config.submission.form, logger);
+    const project = await readme();
+    const detailedDescription = await description();
+    const { codeSummary, source, techStack, prizeMatches, history } = await analyze();
+
+    // Texts written to the form's own length limits and field purposes
+    const formContent = await runStage(
+      runDir,
+      'formContent',
+      {
+        summary: outputHash(runDir, 'analyze', 'summary'),
+        description: outputHash(runDir, 'description', 'description'),
+        history: outputHash(runDir, 'analyze', 'history'),
+        project: outputHash(runDir, 'readme', 'project'),
+        content: form.content,
+        provider: providerInputs('formContent'),
+        maxRepairs,
+      },
+      async () => {
+        const fields = await generateFormContent(
+          providers.formContent,
+          form.content,
+          { ...project, detailedDescription, codeSummary, history: formatHistoryNarrative(history ?? undefined) },
+          maxRepairs,
+          logger
+        );
+        return { fields: writeRunFile(runDir, 'form_content.json', JSON.stringify(fields, null, 2)) };
+      }
+    );
+    const formFields: Record<string, string> = JSON.parse(readRunFile(runDir, formContent.fields));
+
+    // Images and video come from the run directory, or from the output
+    // directory when they were made by hand
+    const uploads: Record<string, string | string[]> = {
+      logo: findAsset(runDir, outputDir, 'logo.png'),
+      cover: findAsset(runDir, outputDir, 'cover.png'),
+      screenshots: findScreenshots(runDir, outputDir, screenshotCount),
+      video: findAsset(runDir, outputDir, 'video.mp4'),
+    };
+    const uploadDir = path.join(runDir.dir, 'uploads');
+    // Images converted to the form's size, format and byte limits before uploading
+    const assetOutputs = await runStage(
+      runDir,
+      'assets',
+      {
+        files: Object.fromEntries(
+          Object.entries(uploads).map(([name, value]) => [name, Array.isArray(value) ? value.map(fileHash) : fileHash(value)])
+        ),
+        assets: form.assets,
+      },
+      async () => {
+        fs.rmSync(uploadDir, { recursive: true, force: true });
+        fs.mkdirSync(uploadDir, { recursive: true });
+        const prepared = await prepareAssets(form, uploads, uploadDir, logger);
+        const outputs: Record<string, string> = {};
+        for (const [name, value] of Object.entries(prepared)) {
+          const files = Array.isArray(value) ? value : [value];
+          for (const [i, file] of files.entries()) {
+            if (file.startsWith(uploadDir)) {
+              outputs[Array.isArray(value) ? `${name}${i + 1}` : name] = path.relative(runDir.dir, file);
+            }
+          }
+        }
+        return outputs;
+      }
+    );
+    // Unprocessed files, e.g. the video, are uploaded as they are
+    const uploadPath = (key: string, original: string) =>
+      assetOutputs[key] ? path.join(runDir.dir, assetOutputs[key]) : original;
+
+    const artifacts = {
+      projectName: project.projectName,
+      briefDescription: project.briefDescription,
+      detailedDescription,
+      readme: project.readme,
+      // A local directory is submitted as its origin remote
+      repoUrl: (await resolveSourceUrl(options.source)) || source.location,
+      logo: uploadPath('logo', uploads.logo as string),
+      cover: uploadPath('cover', uploads.cover as string),
+      screenshots: (uploads.screenshots as string[]).map((file, i) => uploadPath(`screenshots${i + 1}`, file)),
+      video: uploadPath('video', uploads.video as string),
+      ...techStackArtifacts(techStack),
+      // Most active first, bots left out
+      contributors: (history?.contributors || []).map((contributor) => contributor.name),
+      // Best match first, each with its alternative names for the page's prize list
+      sponsors: selectSponsors(prizeMatches, config.prizes).map((match) =>
+        [match.sponsor, ...match.aliases].join('|')
+      ),
+      ...formFields,
+    };
+    return { form, artifacts, uploadProblems: await validateUploads(form, artifacts) };
+  });
+
+  // Helper function to fill in the form at url in a browser
+  const fillForm = async (form: FormDefinition, artifacts: SubmissionArtifacts, url: string, failureDir: string) => {
+    // Configure Aloria with environment variable
+    configureAloria({
+      apiKey: process.env.ALORIA_API_KEY,
+    });
+
+    // Unattended runs are headless; interactive runs show the browser and pause between pages
+    const browser = await chromium.launch({ headless: !options.interactive });
+    // Closing the browser fails whatever step the form is waiting on
+    const onAbort = () => void browser.close();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      const page = await browser.newPage();
+
+      // Combine the base URL with the form's path
+      await page.goto(url);
+
+      // Fill in the submission form page by page from its definition
+      await runForm(page, form, artifacts, {
+        interactive: Boolean(options.interactive),
+        timeoutMs: config.submission.stepTimeoutMs,
+        failureDir,
+        logger,
+      });
+    } catch (error) {
+      // Report the cancellation rather than the closed page
+      options.signal?.throwIfAborted();
+      throw error;
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+      await browser.close();
+    }
+  };
+
+  const submit = async (baseUrl: string): Promise<SubmissionResult | undefined> => {
+    const { form, artifacts, uploadProblems } = await prepareSubmission();
+    const url = formUrl(baseUrl, form);
+    if (runDir.dryRun) {
+      const plan = [formatFormPlan(form, artifacts), ...uploadProblems.map((problem) => `! ${problem}`)].join('\n');
+      logger.log(`\n[dry run] Form plan for ${url}:\n${plan}`);
+      return undefined;
+    }
+    if (uploadProblems.length > 0) {
+      throw new Error(`Uploads do not meet the form's requirements:\n${uploadProblems.map((problem) => `- ${problem}`).join('\n')}`);
+    }
+
+    // A completed submission is only repeated when its inputs change or with force
+    const outputs = await runStage(
+      runDir,
+      'submit',
+      { url, form, artifacts: artifactInputs(artifacts) },
+      async () => {
+        await fillForm(form, artifacts, url, path.join(runDir.dir, 'failures'));
+        return {
+          submission: writeRunFile(
+            runDir,
+            'submission.json',
+            JSON.stringify({ url, submittedAt: new Date().toISOString() }, null, 2)
+          ),
+        };
+      }
+    );
+    return JSON.parse(readRunFile(runDir, outputs.submission));
+  };
+
+  const rehearse = async (): Promise<RehearsalResult> => {
+    const { form, artifacts, uploadProblems } = await prepareSubmission();
+    if (uploadProblems.length > 0) {
+      throw new Error(`Uploads do not meet the form's requirements:\n${uploadProblems.map((problem) => `- ${problem}`).join('\n')}`);
+    }
+    const recordDir = path.join(runDir.dir, 'rehearsal');
+    const outputs = await runStage(
+      runDir,
+      'rehearsal',
+      // Repeated only when what would be sent changes, or with force
+      {
+        form,
+        artifacts: artifactInputs(artifacts),
+        sponsors: resolveSponsors(config.prizes).map((sponsor) => sponsor.name),
+        maxPartners: config.prizes.maxPrizes,
+      },
+      async () => {
+        fs.rmSync(recordDir, { recursive: true, force: true });
+        const portal = await startMockPortal({
+          form,
+          recordDir,
+          sponsors: resolveSponsors(config.prizes).map((sponsor) => sponsor.name),
+          maxPartners: config.prizes.maxPrizes,
+        });
+        logger.log(`Mock portal listening at ${portal.url}`);
+        // A step the portal rejects is reported like any other failed check
+        let formError: unknown;
+        try {
+          await fillForm(form, artifacts, formUrl(portal.url, form), path.join(recordDir, 'failures'));
+        } catch (error) {
+          formError = error;
+        } finally {
+          await portal.close();
+        }
+        const checks = [
+          {
+            name: 'form',
+            ok: formError === undefined,
+            detail: formError === undefined ? 'every page was filled in' : (formError as Error).message.split('\n')[0],
+          },
+          ...checkRehearsal(form, artifacts, portal.submission, recordDir),
+        ];
+        return {
+          checks: writeRunFile(runDir, 'rehearsal.json', JSON.stringify(checks, null, 2)),
+          report: writeRunFile(runDir, 'rehearsal.md', formatRehearsalReport(form.name, checks)),
+        };
+      }
+    );
+    const checks: RehearsalCheck[] = JSON.parse(readRunFile(runDir, outputs.checks));
+    return { passed: checks.every((check) => check.ok), checks, report: readRunFile(runDir, outputs.report) };
+  };
+
+  return {
+    runDir: runDir.dir,
+    analyze,
+    readme,
+    description,
+    videoScript,
+    images,
+    video,
+    publish,
+    submit,
+    rehearse,
+    close: () => closeRunDirectory(runDir),
+  };
+}
+
+// Helper function to run stages in a pipeline of their own, always closing it
+async function withPipeline<T>(options: PipelineOptions, fn: (pipeline: Pipeline) => Promise<T>): Promise<T> {
+  const pipeline = await createPipeline(options);
+  try {
+    return await fn(pipeline);
+  } finally {
+    pipeline.close();
+  }
+}
+
+export function analyzeRepository(options: PipelineOptions): Promise<Analysis> {
+  return withPipeline(options, (pipeline) => pipeline.analyze());
+}
+
+export function generateReadme(options: PipelineOptions): Promise<ReadmeResult> {
+  return withPipeline(options, (pipeline) => pipeline.readme());
+}
+
+export function generateDescription(options: PipelineOptions): Promise<string> {
+  return withPipeline(options, (pipeline) => pipeline.description());
+}
+
+export function generateVideoScript(options: PipelineOptions): Promise<string> {
+  return withPipeline(options, (pipeline) => pipeline.videoScript());
+}
+
+export function generateImages(options: PipelineOptions): Promise<ImageResult> {
+  return withPipeline(options, (pipeline) => pipeline.images());
+}
+
+// Generates the images too, unlike Pipeline.video
+export function renderDemoVideo(options: PipelineOptions): Promise<VideoResult | undefined> {
+  return withPipeline(options, async (pipeline) => {
+    await pipeline.images();
+    return pipeline.video();
+  });
+}
+
+export function publishReadmePullRequest(options: PipelineOptions): Promise<PublishResult | undefined> {
+  return withPipeline(options, (pipeline) => pipeline.publish());
+}
+
+// Submits the images and video already in the run or output directory
+export function submitProject(options: PipelineOptions & { baseUrl: string }): Promise<SubmissionResult | undefined> {
+  return withPipeline(options, (pipeline) => pipeline.submit(options.baseUrl));
+}
+
+// Like submitProject, against a local mock of the portal
+export function rehearseSubmission(options: PipelineOptions): Promise<RehearsalResult> {
+  return withPipeline(options, (pipeline) => pipeline.rehearse());
+}
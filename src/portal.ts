@@ -0,0 +1,410 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import { FormDefinition, SubmissionArtifacts } from './forms';
+import { checkUploadFile } from './images';
+
+export interface PortalOptions {
+  form: FormDefinition;
+  // Where uploads and submission.json are written
+  recordDir: string;
+  // Partner prizes listed on the prize page
+  sponsors: string[];
+  // Most partner prizes a project may apply for
+  maxPartners: number;
+  // 0 picks a free port
+  port?: number;
+}
+
+export interface PortalUpload {
+  // Relative to the record directory
+  file: string;
+  bytes: number;
+  sha256: string;
+}
+
+// What the portal received, saved as submission.json as each step is saved
+export interface PortalSubmission {
+  project?: { name: string; category: string; emoji: string; acceptedRules: boolean };
+  details?: Record<string, string>;
+  // Upload input id -> the file received last
+  uploads: Record<string, PortalUpload>;
+  tech?: Record<string, string[]>;
+  prizes?: { track: string; partners: string[] };
+  termsAccepted?: boolean;
+  submittedAt?: string;
+}
+
+export interface MockPortal {
+  // Base URL to submit to; the form's path is appended as usual
+  url: string;
+  submission: PortalSubmission;
+  close(): Promise<void>;
+}
+
+export interface RehearsalCheck {
+  name: string;
+  ok: boolean;
+  detail: string;
+}
+
+const PAGE_PATH = path.join(__dirname, '..', 'portal', 'index.html');
+const MAX_BODY_BYTES = 200 * 1024 * 1024;
+
+const CATEGORIES = ['DeFi', 'Gaming', 'Infrastructure', 'NFTs', 'Social', 'AI', 'Payments', 'Identity'];
+const TRACKS = ['All prizes', 'Partner Prizes only', 'Finalist prizes only'];
+// Offered the way event sites do, so the fuzzy matching gets exercised
+const TECH_OPTIONS: Record<string, { label: string; options: string[] }> = {
+  techDevTools: {
+    label: 'Developer tools',
+    options: ['Hardhat', 'Foundry', 'Truffle', 'Remix', 'Ethers.js', 'Viem', 'Wagmi', 'Web3.js', 'Docker', 'Other'],
+  },
+  techBlockchain: {
+    label: 'Blockchain networks',
+    options: ['Ethereum', 'Polygon', 'Arbitrum', 'Optimism', 'Base', 'Scroll', 'zkSync', 'Linea', 'Solana', 'Other'],
+  },
+  techLanguages: {
+    label: 'Programming languages',
+    options: ['Solidity', 'TypeScript', 'JavaScript', 'Python', 'Rust', 'Go', 'Java', 'Vyper', 'Move', 'Other'],
+  },
+  techWebFrameworks: {
+    label: 'Web frameworks',
+    options: ['React', 'Next.js', 'Vue', 'Svelte', 'Angular', 'Express', 'NestJS', 'FastAPI', 'Django', 'Flask', 'Other'],
+  },
+  techDatabases: {
+    label: 'Databases',
+    options: ['PostgreSQL', 'MySQL', 'MongoDB', 'SQLite', 'Redis', 'Supabase', 'Firebase', 'IPFS', 'Other'],
+  },
+  techDesign: {
+    label: 'Design tools',
+    options: ['Figma', 'Tailwind CSS', 'Material UI', 'Chakra UI', 'shadcn/ui', 'Bootstrap', 'Other'],
+  },
+};
+
+// A request the portal rejects, shown on the page as the real portal's messages are
+class PortalError extends Error {
+  constructor(
+    readonly errors: string[],
+    readonly status = 400
+  ) {
+    super(errors.join('; '));
+    this.name = 'PortalError';
+  }
+}
+
+// Helper function to find the artifact an upload input belongs to from the
+// form's upload fields, e.g. screenshot3 -> screenshots
+function uploadArtifact(form: FormDefinition, inputId: string): string | undefined {
+  for (const formPage of form.pages) {
+    for (const field of formPage.fields) {
+      if (field.action !== 'upload' || !field.selector.id || typeof field.value === 'string') {
+        continue;
+      }
+      const pattern = new RegExp(`^${field.selector.id.replace(/[.*+?^$()|[\]\\]/g, '\\$&').replace(/\{n\}/g, '\\d+')}$`);
+      if (pattern.test(inputId)) {
+        return field.value.artifact;
+      }
+    }
+  }
+  return undefined;
+}
+
+// Helper function to check the texts against the form's content specs, the
+// limits the real portal enforces
+function checkDetails(form: FormDefinition, details: Record<string, string>): string[] {
+  const errors: string[] = [];
+  for (const [name, value] of Object.entries(details)) {
+    const spec = form.content[name];
+    if (!value.trim()) {
+      errors.push(`${name} is required`);
+    } else if (spec && value.length < spec.minChars) {
+      errors.push(`${name} must be at least ${spec.minChars} characters (got ${value.length})`);
+    } else if (spec?.maxChars !== undefined && value.length > spec.maxChars) {
+      errors.push(`${name} must be at most ${spec.maxChars} characters (got ${value.length})`);
+    }
+  }
+  if (details.repoUrl && !/^https?:\/\//.test(details.repoUrl)) {
+    errors.push('repoUrl must be a URL');
+  }
+  return errors;
+}
+
+function readBody(request: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new PortalError([`Upload is over ${MAX_BODY_BYTES} bytes`], 413));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+}
+
+// Helper function to start a local stand-in for the event's submission portal,
+// with the pages, input ids and checks the form definition expects. Everything
+// it receives is written to options.recordDir.
+export async function startMockPortal(options: PortalOptions): Promise<MockPortal> {
+  const { form, recordDir } = options;
+  const uploadDir = path.join(recordDir, 'uploads');
+  fs.mkdirSync(uploadDir, { recursive: true });
+  const page = fs.readFileSync(PAGE_PATH, 'utf8');
+  const submission: PortalSubmission = { uploads: {} };
+  const save = () =>
+    fs.writeFileSync(path.join(recordDir, 'submission.json'), JSON.stringify(submission, null, 2), 'utf8');
+
+  const requireUploads = (inputIds: string[]) => {
+    const missing = inputIds.filter((id) => !submission.uploads[id]);
+    if (missing.length > 0) {
+      throw new PortalError(missing.map((id) => `${id} has not been uploaded`));
+    }
+  };
+
+  const saveStep = (step: string, data: Record<string, unknown>) => {
+    switch (step) {
+      case 'create-project': {
+        const project = data as NonNullable<PortalSubmission['project']>;
+        const errors = [
+          ...(project.name?.trim() ? [] : ['Project name is required']),
+          ...(CATEGORIES.includes(project.category) ? [] : ['Pick a category']),
+          ...(project.acceptedRules ? [] : ['Accept the event rules to create a project']),
+        ];
+        if (errors.length > 0) {
+          throw new PortalError(errors);
+        }
+        submission.project = project;
+        break;
+      }
+      case 'details': {
+        const details = data as Record<string, string>;
+        const errors = checkDetails(form, details);
+        if (errors.length > 0) {
+          throw new PortalError(errors);
+        }
+        submission.details = details;
+        break;
+      }
+      case 'media':
+        requireUploads(['logoId', 'bannerId']);
+        break;
+      case 'video':
+        requireUploads(['video']);
+        break;
+      case 'tech': {
+        const tech = data as Record<string, string[]>;
+        const errors = Object.entries(tech).flatMap(([name, values]) =>
+          values.filter((value) => !TECH_OPTIONS[name]?.options.includes(value)).map((value) => `${name}: unknown option ${value}`)
+        );
+        if (errors.length > 0) {
+          throw new PortalError(errors);
+        }
+        submission.tech = tech;
+        break;
+      }
+      case 'prizes': {
+        const prizes = data as { track: string; partners: string[] };
+        if (!TRACKS.includes(prizes.track)) {
+          throw new PortalError(['Choose which prizes you are applying for']);
+        }
+        if (prizes.partners.length > options.maxPartners) {
+          throw new PortalError([`Pick at most ${options.maxPartners} partner prizes`]);
+        }
+        submission.prizes = prizes;
+        break;
+      }
+      case 'terms':
+        if (!data.accepted) {
+          throw new PortalError(['Accept the terms and conditions to continue']);
+        }
+        submission.termsAccepted = true;
+        break;
+      default:
+        throw new PortalError([`Unknown step ${step}`], 404);
+    }
+  };
+
+  const handle = async (request: http.IncomingMessage, url: URL): Promise<unknown> => {
+    if (request.method === 'GET' && url.pathname === '/api/portal') {
+      return {
+        name: `${form.name} (mock)`,
+        categories: CATEGORIES,
+        tracks: TRACKS,
+        tech: TECH_OPTIONS,
+        sponsors: options.sponsors,
+        maxPartners: options.maxPartners,
+      };
+    }
+    if (request.method === 'GET' && url.pathname === '/api/submission') {
+      return submission;
+    }
+    if (request.method !== 'POST') {
+      throw new PortalError([`Not found: ${url.pathname}`], 404);
+    }
+
+    const body = await readBody(request);
+    const upload = url.pathname.match(/^\/api\/uploads\/([\w-]+)$/);
+    if (upload) {
+      const inputId = upload[1];
+      const artifact = uploadArtifact(form, inputId);
+      if (!artifact) {
+        throw new PortalError([`Unknown upload field ${inputId}`], 404);
+      }
+      const filename = path.basename(url.searchParams.get('filename') || 'upload');
+      const file = path.join('uploads', `${inputId}-${filename}`);
+      fs.writeFileSync(path.join(recordDir, file), body);
+      const problems = await checkUploadFile(inputId, path.join(recordDir, file), form.assets[artifact]);
+      if (problems.length > 0) {
+        throw new PortalError(problems);
+      }
+      submission.uploads[inputId] = {
+        file,
+        bytes: body.length,
+        sha256: crypto.createHash('sha256').update(body).digest('hex'),
+      };
+      return submission.uploads[inputId];
+    }
+
+    const step = url.pathname.match(/^\/api\/steps\/([\w-]+)$/);
+    if (step) {
+      saveStep(step[1], JSON.parse(body.toString('utf8') || '{}'));
+      return { saved: step[1] };
+    }
+
+    if (url.pathname === '/api/submit') {
+      const missing = [
+        ...(submission.project ? [] : ['project']),
+        ...(submission.details ? [] : ['details']),
+        ...(submission.tech ? [] : ['tech stack']),
+        ...(submission.prizes ? [] : ['prizes']),
+        ...(submission.termsAccepted ? [] : ['terms']),
+      ];
+      if (missing.length > 0) {
+        throw new PortalError([`Complete every step before submitting: ${missing.join(', ')} missing`]);
+      }
+      submission.submittedAt = new Date().toISOString();
+      return { submittedAt: submission.submittedAt };
+    }
+    throw new PortalError([`Not found: ${url.pathname}`], 404);
+  };
+
+  const server = http.createServer((request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    if (request.method === 'GET' && url.pathname === form.path) {
+      response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      response.end(page);
+      return;
+    }
+    handle(request, url)
+      .then((result) => {
+        save();
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(result));
+      })
+      .catch((error) => {
+        const status = error instanceof PortalError ? error.status : 500;
+        const errors = error instanceof PortalError ? error.errors : [(error as Error).message];
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ errors }));
+      });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    submission,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
+
+// Helper function to compare what the portal recorded with what the pipeline
+// meant to submit. Uploads are compared by content.
+export function checkRehearsal(
+  form: FormDefinition,
+  artifacts: SubmissionArtifacts,
+  submission: PortalSubmission,
+  recordDir: string
+): RehearsalCheck[] {
+  const checks: RehearsalCheck[] = [];
+  const check = (name: string, ok: boolean, detail: string) => checks.push({ name, ok, detail });
+  const sha256 = (file: string) =>
+    fs.existsSync(file) ? crypto.createHash('sha256').update(fs.readFileSync(file)).digest('hex') : undefined;
+
+  check('submitted', Boolean(submission.submittedAt), submission.submittedAt || 'the final submit was not received');
+  check(
+    'projectName',
+    submission.project?.name === artifacts.projectName,
+    submission.project ? `received "${submission.project.name}"` : 'not received'
+  );
+  for (const name of [...Object.keys(form.content), 'repoUrl']) {
+    const received = submission.details?.[name];
+    check(
+      name,
+      received !== undefined && received === artifacts[name],
+      received === undefined ? 'not received' : `${received.length} characters received`
+    );
+  }
+
+  for (const formPage of form.pages) {
+    for (const field of formPage.fields) {
+      if (field.action !== 'upload' || !field.selector.id || typeof field.value === 'string') {
+        continue;
+      }
+      const value = artifacts[field.value.artifact];
+      const files = Array.isArray(value) ? value : value ? [value] : [];
+      files.forEach((file, i) => {
+        const inputId = field.selector.id!.replace(/\{n\}/g, String(i + 1));
+        const received = submission.uploads[inputId];
+        check(
+          inputId,
+          received?.sha256 === sha256(file),
+          received ? `${received.bytes} bytes in ${path.join(recordDir, received.file)}` : `${path.basename(file)} not received`
+        );
+      });
+    }
+  }
+
+  const tech = Object.entries(submission.tech || {});
+  check(
+    'tech',
+    tech.length > 0,
+    tech.length > 0
+      ? tech.map(([name, values]) => `${name}: ${values.join(', ') || '(none)'}`).join('; ')
+      : 'not received'
+  );
+  const partners = submission.prizes?.partners || [];
+  check(
+    'prizes',
+    Boolean(submission.prizes),
+    submission.prizes ? `${submission.prizes.track}; ${partners.join(', ') || 'no partner prizes'}` : 'not received'
+  );
+  check('terms', Boolean(submission.termsAccepted), submission.termsAccepted ? 'accepted' : 'not accepted');
+  return checks;
+}
+
+// Helper function to render the rehearsal checks as a Markdown report
+export function formatRehearsalReport(formName: string, checks: RehearsalCheck[]): string {
+  const failed = checks.filter((entry) => !entry.ok);
+  return [
+    `# Submission rehearsal: ${formName}`,
+    '',
+    failed.length === 0
+      ? `The mock portal received everything the pipeline submitted (${checks.length} checks).`
+      : `${failed.length} of ${checks.length} checks failed; the real submission would likely fail the same way.`,
+    '',
+    ...checks.map((entry) => `- ${entry.ok ? 'ok' : 'FAILED'} ${entry.name}: ${entry.detail}`),
+    '',
+  ].join('\n');
+}
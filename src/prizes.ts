@@ -0,0 +1,278 @@
+import fs from 'fs';
+import path from 'path';
+import { Logger } from './artifacts';
+import { SecretOptions, redactSecrets } from './secrets';
+
+// What identifies a sponsor's technology in a codebase
+export interface SponsorDefinition {
+  name: string;
+  // Other names the sponsor's prizes may be listed under
+  aliases?: string[];
+  // SDK package or module names; a trailing * matches by prefix
+  packages?: string[];
+  // API or RPC hosts, e.g. api.1inch.dev
+  hosts?: string[];
+  // EVM chain IDs, matched where a chainId is set
+  chainIds?: number[];
+  // Contract addresses, matched case-insensitively
+  addresses?: string[];
+  // Identifiers only the sponsor's SDK or contracts use, e.g. AggregatorV3Interface
+  keywords?: string[];
+}
+
+export interface PrizeOptions {
+  // Added to the built-in sponsors; an entry with a built-in name replaces it
+  sponsors: SponsorDefinition[];
+  // Sponsors never selected, e.g. after reviewing the report
+  exclude: string[];
+  // Matches below this confidence are reported but not selected
+  minConfidence: number;
+  // Most prizes the event lets a project apply for
+  maxPrizes: number;
+}
+
+export type SignalType = 'package' | 'host' | 'chainId' | 'address' | 'keyword';
+
+export interface PrizeEvidence {
+  signal: SignalType;
+  value: string;
+  file: string;
+  line: number;
+  text: string;
+}
+
+export interface SponsorMatch {
+  sponsor: string;
+  aliases: string[];
+  // 0 to 1, from the distinct signals found
+  confidence: number;
+  evidence: PrizeEvidence[];
+}
+
+// How much a single distinct signal says about real usage
+const SIGNAL_WEIGHTS: Record<SignalType, number> = {
+  package: 0.6,
+  address: 0.7,
+  host: 0.5,
+  chainId: 0.4,
+  keyword: 0.3,
+};
+
+// Evidence lines kept per sponsor for the report
+const MAX_EVIDENCE = 10;
+
+export const BUILTIN_SPONSORS: SponsorDefinition[] = [
+  {
+    name: 'Chainlink',
+    packages: ['@chainlink/*'],
+    keywords: ['AggregatorV3Interface', 'VRFConsumerBaseV2', 'CCIPReceiver', 'FunctionsClient', 'AutomationCompatible'],
+  },
+  {
+    name: 'The Graph',
+    packages: ['@graphprotocol/*'],
+    hosts: ['api.studio.thegraph.com', 'gateway.thegraph.com', 'gateway-arbitrum.network.thegraph.com'],
+  },
+  {
+    name: 'Uniswap',
+    packages: ['@uniswap/*'],
+    addresses: [
+      '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD',
+      '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45',
+      '0x000000000004444c5dc75cB358380D2e3dE08A90',
+    ],
+  },
+  { name: '1inch', packages: ['@1inch/*'], hosts: ['api.1inch.dev', 'api.1inch.io'] },
+  {
+    name: 'Polygon',
+    packages: ['@maticnetwork/*', '@0xpolygon/*'],
+    chainIds: [137, 80002, 1101, 2442],
+    hosts: ['polygon-rpc.com', 'rpc-amoy.polygon.technology'],
+  },
+  {
+    name: 'Base',
+    aliases: ['Coinbase Developer Platform', 'Coinbase'],
+    packages: ['@coinbase/*', '@base-org/*'],
+    chainIds: [8453, 84532],
+    hosts: ['mainnet.base.org', 'sepolia.base.org', 'api.developer.coinbase.com'],
+  },
+  {
+    name: 'Worldcoin',
+    aliases: ['World'],
+    packages: ['@worldcoin/*'],
+    chainIds: [480, 4801],
+    hosts: ['developer.worldcoin.org'],
+  },
+  {
+    name: 'Filecoin',
+    aliases: ['Protocol Labs'],
+    packages: ['@filecoin-*', '@web3-storage/*', '@lighthouse-web3/*', '@storacha/*'],
+    chainIds: [314, 314159],
+  },
+  { name: 'Flow', packages: ['@onflow/*'], chainIds: [747, 545] },
+  { name: 'Push Protocol', aliases: ['Push'], packages: ['@pushprotocol/*'] },
+  { name: 'XMTP', packages: ['@xmtp/*'] },
+  { name: 'Lit Protocol', packages: ['@lit-protocol/*'] },
+  {
+    name: 'ENS',
+    aliases: ['Ethereum Name Service'],
+    packages: ['@ensdomains/*'],
+    addresses: ['0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e'],
+    keywords: ['useEnsName', 'useEnsAddress', 'getEnsName', 'getEnsAddress'],
+  },
+  { name: 'Safe', packages: ['@safe-global/*'] },
+  {
+    name: 'Circle',
+    packages: ['@circle-fin/*'],
+    hosts: ['api.circle.com'],
+    addresses: ['0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48'],
+  },
+  { name: 'Scroll', chainIds: [534352, 534351], hosts: ['rpc.scroll.io', 'sepolia-rpc.scroll.io'] },
+  { name: 'Linea', chainIds: [59144, 59141], hosts: ['rpc.linea.build'] },
+  { name: 'Arbitrum', packages: ['@arbitrum/*'], chainIds: [42161, 421614] },
+  { name: 'Optimism', aliases: ['OP'], packages: ['@eth-optimism/*'], chainIds: [10, 11155420] },
+  { name: 'MetaMask', packages: ['@metamask/*'] },
+  { name: 'Sign Protocol', packages: ['@ethsign/*'] },
+  { name: 'Blockscout', hosts: ['blockscout.com'] },
+  { name: 'Dynamic', packages: ['@dynamic-labs/*'] },
+  { name: 'Privy', packages: ['@privy-io/*'] },
+];
+
+// Helper function to merge configured sponsors over the built-in ones by name
+export function resolveSponsors(options: PrizeOptions): SponsorDefinition[] {
+  const byName = new Map(BUILTIN_SPONSORS.map((sponsor) => [sponsor.name.toLowerCase(), sponsor]));
+  for (const sponsor of options.sponsors) {
+    byName.set(sponsor.name.toLowerCase(), sponsor);
+  }
+  const excluded = options.exclude.map((name) => name.toLowerCase());
+  return [...byName.values()].filter((sponsor) => !excluded.includes(sponsor.name.toLowerCase()));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Helper function to compile a sponsor's signals into line matchers
+function compileSignals(sponsor: SponsorDefinition): { signal: SignalType; value: string; test: RegExp }[] {
+  const signals: { signal: SignalType; value: string; test: RegExp }[] = [];
+  for (const pattern of sponsor.packages || []) {
+    // A quoted module name, as in imports, require() and package.json
+    const name = pattern.endsWith('*')
+      ? `${escapeRegExp(pattern.slice(0, -1))}[^'"\`]*`
+      : `${escapeRegExp(pattern)}(?:/[^'"\`]*)?`;
+    signals.push({ signal: 'package', value: pattern, test: new RegExp(`['"\`]${name}['"\`]`) });
+  }
+  for (const host of sponsor.hosts || []) {
+    signals.push({ signal: 'host', value: host, test: new RegExp(`(^|[^\\w.-])${escapeRegExp(host)}\\b`, 'i') });
+  }
+  for (const chainId of sponsor.chainIds || []) {
+    signals.push({
+      signal: 'chainId',
+      value: String(chainId),
+      test: new RegExp(`chain[_-]?id\\W{0,4}(${chainId}|0x${chainId.toString(16)})\\b`, 'i'),
+    });
+  }
+  for (const address of sponsor.addresses || []) {
+    signals.push({ signal: 'address', value: address, test: new RegExp(escapeRegExp(address), 'i') });
+  }
+  for (const keyword of sponsor.keywords || []) {
+    signals.push({ signal: 'keyword', value: keyword, test: new RegExp(`\\b${escapeRegExp(keyword)}\\b`) });
+  }
+  return signals;
+}
+
+// Helper function to combine distinct signals: each one independently lowers
+// the chance that the sponsor's technology is not actually used
+function scoreEvidence(evidence: PrizeEvidence[]): number {
+  const distinct = new Map(evidence.map((item) => [`${item.signal}:${item.value}`, item.signal]));
+  const unlikely = [...distinct.values()].reduce((product, signal) => product * (1 - SIGNAL_WEIGHTS[signal]), 1);
+  return Math.round((1 - unlikely) * 100) / 100;
+}
+
+// Helper function to scan the repository for each sponsor's SDKs, hosts,
+// chain IDs and contract addresses. files are walked source files and
+// manifests, relative to dir; documentation is skipped since mentioning a
+// sponsor is not using it. With secret options, secrets are redacted from the
+// evidence lines quoted in the report.
+export function matchSponsors(
+  dir: string,
+  files: string[],
+  options: PrizeOptions,
+  secrets?: SecretOptions,
+  logger: Logger = console
+): SponsorMatch[] {
+  const sponsors = resolveSponsors(options).map((sponsor) => ({
+    sponsor,
+    signals: compileSignals(sponsor),
+    evidence: [] as PrizeEvidence[],
+  }));
+
+  for (const file of files) {
+    if (/\.(md|mdx|txt)$/i.test(file) && !/requirements.*\.txt$/i.test(file)) {
+      continue;
+    }
+    let content: string;
+    try {
+      content = fs.readFileSync(path.join(dir, file), 'utf8');
+    } catch (error) {
+      logger.error(`Error reading file ${file}:`, error);
+      continue;
+    }
+
+    const lines = content.split('\n');
+    for (const [index, text] of lines.entries()) {
+      // Skip long lines, usually minified or embedded data
+      if (text.length > 500) {
+        continue;
+      }
+      for (const entry of sponsors) {
+        for (const { signal, value, test } of entry.signals) {
+          if (test.test(text)) {
+            const quoted = secrets ? redactSecrets(text.trim(), file, secrets).content : text.trim();
+            entry.evidence.push({ signal, value, file, line: index + 1, text: quoted });
+          }
+        }
+      }
+    }
+  }
+
+  return sponsors
+    .filter((entry) => entry.evidence.length > 0)
+    .map((entry) => ({
+      sponsor: entry.sponsor.name,
+      aliases: entry.sponsor.aliases || [],
+      confidence: scoreEvidence(entry.evidence),
+      evidence: entry.evidence.slice(0, MAX_EVIDENCE),
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+// Helper function to pick the sponsors to apply for: confident enough, best first
+export function selectSponsors(matches: SponsorMatch[], options: PrizeOptions): SponsorMatch[] {
+  return matches
+    .filter((match) => match.confidence >= options.minConfidence)
+    .slice(0, options.maxPrizes);
+}
+
+// Helper function to render the matches as a Markdown report for review before submitting
+export function formatPrizeReport(matches: SponsorMatch[], options: PrizeOptions): string {
+  if (matches.length === 0) {
+    return '# Partner prizes\n\nNo sponsor technology was found in the repository.\n';
+  }
+
+  const selected = selectSponsors(matches, options).map((match) => match.sponsor);
+  const lines = [
+    '# Partner prizes',
+    '',
+    `Selected (confidence >= ${options.minConfidence}, at most ${options.maxPrizes}): ${selected.length > 0 ? selected.join(', ') : 'none'}`,
+    '',
+  ];
+  for (const match of matches) {
+    const status = selected.includes(match.sponsor) ? 'selected' : 'not selected';
+    lines.push(`## ${match.sponsor} (confidence ${match.confidence.toFixed(2)}, ${status})`, '');
+    for (const item of match.evidence) {
+      lines.push(`- ${item.file}:${item.line} ${item.signal} \`${item.value}\`: \`${item.text.slice(0, 120).replace(/`/g, "'")}\``);
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
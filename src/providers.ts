@@ -0,0 +1,179 @@
+import OpenAI from 'openai';
+import fs from 'fs';
+import path from 'path';
+import {
+  PIPELINE_STEPS,
+  PipelineStep,
+  ProviderConfig,
+  SubmitConfig,
+  getStepProviderConfig,
+} from './config';
+import { RetryOptions, RetryPolicy, withRetry } from './resilience';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export type ImageSize =
+  | '256x256'
+  | '512x512'
+  | '1024x1024'
+  | '1792x1024'
+  | '1024x1792';
+
+export interface ImageOptions {
+  n: number;
+  size: ImageSize;
+}
+
+// Text completion + image generation, implemented once per backend
+export interface LLMProvider {
+  name: string;
+  complete(messages: ChatMessage[]): Promise<string>;
+  // Resolves to fetchable URLs (http(s) or data:) of the generated images
+  generateImages(prompt: string, options: ImageOptions): Promise<string[]>;
+}
+
+export type StepProviders = Record<PipelineStep, LLMProvider>;
+
+// Provider for api.openai.com or any server exposing the OpenAI API. Requests
+// are reported to hooks.logger and cancelled by hooks.signal.
+export function createOpenAIProvider(config: ProviderConfig, retry: RetryPolicy, hooks: RetryOptions = {}): LLMProvider {
+  const apiKey = config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined;
+  const openai = new OpenAI({
+    // Local OpenAI-compatible servers usually ignore the key, but the SDK requires one
+    apiKey: apiKey || (config.type === 'openai-compatible' ? 'not-needed' : undefined),
+    baseURL: config.baseURL,
+    // Retries and timeouts follow the shared policy instead
+    maxRetries: 0,
+  });
+  const model = config.model || 'gpt-4';
+
+  return {
+    name: `${config.type}:${model}`,
+    async complete(messages) {
+      const response = await withRetry(
+        `${config.type}:${model} chat completion`,
+        retry,
+        (signal) => openai.chat.completions.create({ model, messages }, { signal }),
+        hooks
+      );
+      return response.choices[0].message?.content || '';
+    },
+    async generateImages(prompt, options) {
+      const response = await withRetry(
+        `${config.type}:${config.imageModel || 'default'} image generation`,
+        retry,
+        (signal) =>
+          openai.images.generate(
+            {
+              model: config.imageModel,
+              prompt,
+              n: options.n,
+              size: options.size,
+            },
+            { signal }
+          ),
+        hooks
+      );
+      return (response.data || [])
+        .map((image) => image.url)
+        .filter((url): url is string => Boolean(url));
+    },
+  };
+}
+
+// 1x1 transparent PNG used as the mock image
+const MOCK_IMAGE_URL =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+const MOCK_SENTENCE =
+  'Mock Project is a deterministic placeholder application generated by the mock provider so the pipeline can run offline.';
+
+// Helper function to write a mock form field that fits the length asked for in the prompt
+function mockFormContent(messages: ChatMessage[]): string {
+  const prompt = messages.find((message) => message.role === 'user')?.content || '';
+  const name = prompt.match(/Write the "([^"]+)" field/)?.[1] || 'field';
+  const minChars = Number(prompt.match(/(?:at least|between) (\d+)/)?.[1] || 0);
+  const maxChars = Number(prompt.match(/(?:at most|and) (\d+) characters/)?.[1] || Infinity);
+
+  const sentence = `This is the mock ${name} text.`;
+  let text = sentence;
+  while (text.length < minChars && text.length + MOCK_SENTENCE.length + 1 <= maxChars) {
+    text += ` ${MOCK_SENTENCE}`;
+  }
+  return text;
+}
+
+// Defaults satisfy the schemas in schemas.ts and content.ts so a mock run passes validation
+const DEFAULT_FIXTURES: Partial<Record<PipelineStep, string | ((messages: ChatMessage[]) => string)>> = {
+  readme: JSON.stringify({
+    projectName: 'Mock Project',
+    briefDescription: 'A deterministic mock project used for offline runs.',
+    readmeContent: `# Mock Project\n\n${MOCK_SENTENCE}\n\n## Usage\n\nRun the pipeline with the mock provider.`,
+  }),
+  description: Array(3).fill(MOCK_SENTENCE).join(' '),
+  videoScript: Array(10).fill(MOCK_SENTENCE).join(' '),
+  formContent: mockFormContent,
+};
+
+// Deterministic provider for offline runs and CI, reads <step>.txt / <step>.json fixtures
+export function createMockProvider(
+  step: PipelineStep,
+  config: ProviderConfig
+): LLMProvider {
+  return {
+    name: `mock:${step}`,
+    async complete(messages) {
+      if (config.fixturesDir) {
+        for (const extension of ['.txt', '.json']) {
+          const fixturePath = path.resolve(config.fixturesDir, `${step}${extension}`);
+          if (fs.existsSync(fixturePath)) {
+            return fs.readFileSync(fixturePath, 'utf8');
+          }
+        }
+      }
+      const fixture = DEFAULT_FIXTURES[step];
+      if (typeof fixture === 'function') {
+        return fixture(messages);
+      }
+      return fixture || `Mock response for ${step}`;
+    },
+    async generateImages(_prompt, options) {
+      return Array.from({ length: options.n }, () => MOCK_IMAGE_URL);
+    },
+  };
+}
+
+export function createProvider(
+  step: PipelineStep,
+  config: ProviderConfig,
+  retry: RetryPolicy,
+  hooks: RetryOptions = {}
+): LLMProvider {
+  switch (config.type) {
+    case 'openai':
+    case 'openai-compatible':
+      return createOpenAIProvider(config, retry, hooks);
+    case 'mock':
+      return createMockProvider(step, config);
+    default:
+      throw new Error(`Unknown provider type: ${(config as ProviderConfig).type}`);
+  }
+}
+
+// Helper function to build one provider per pipeline step from the config,
+// except for the steps the caller passes its own provider for
+export function createStepProviders(
+  config: SubmitConfig,
+  hooks: RetryOptions = {},
+  overrides: Partial<StepProviders> = {}
+): StepProviders {
+  const providers = {} as StepProviders;
+  for (const step of PIPELINE_STEPS) {
+    providers[step] =
+      overrides[step] || createProvider(step, getStepProviderConfig(config, step), config.resilience, hooks);
+  }
+  return providers;
+}
@@ -0,0 +1,279 @@
+import fs from 'fs';
+import path from 'path';
+import { Octokit } from '@octokit/rest';
+import { RetryOptions, RetryPolicy, withRetry } from './resilience';
+import { SourceSpec, formatSourceSpec, resolveSourceUrl } from './source';
+
+export interface PublishOptions {
+  // GitHub API base URL, e.g. a GitHub Enterprise server or a local mock
+  baseUrl: string;
+  // Name of the environment variable holding the token
+  tokenEnv: string;
+  // owner/repo to open the pull request on; defaults to the source's GitHub URL
+  // or a local directory's origin remote
+  repository?: string;
+  // Branch the README is committed to; rerunning updates it and its pull request
+  branch: string;
+  // Branch the pull request targets; defaults to the repository's default branch
+  baseBranch?: string;
+  // Also commit the logo and cover into assets/ and show the cover in the README
+  includeImages: boolean;
+  draft: boolean;
+}
+
+export interface PublishContent {
+  readme: string;
+  projectName: string;
+  briefDescription: string;
+  source: SourceSpec & { commit?: string };
+  logoPath?: string;
+  coverPath?: string;
+}
+
+export interface PublishResult {
+  pullRequestUrl: string;
+  branch: string;
+  commit: string;
+  files: string[];
+}
+
+interface PublishFile {
+  path: string;
+  // utf-8 text, or base64 for images
+  content: string;
+  encoding: 'utf-8' | 'base64';
+}
+
+// Helper function to read owner/repo from a GitHub URL, e.g.
+// https://github.com/org/repo.git or git@github.com:org/repo.git
+export function parseGitHubRepository(location: string): { owner: string; repo: string } | undefined {
+  const match = location.match(/^(?:https?:\/\/[^/]+\/|git@[^:]+:|ssh:\/\/git@[^/]+\/)([^/]+)\/([^/]+?)(?:\.git)?\/?$/);
+  return match ? { owner: match[1], repo: match[2] } : undefined;
+}
+
+// Helper function to find the repository to open the pull request on:
+// publish.repository, else the source's GitHub URL or, for a local
+// directory, its origin remote
+export async function resolveRepository(
+  options: PublishOptions,
+  source: SourceSpec
+): Promise<{ owner: string; repo: string }> {
+  if (options.repository) {
+    const [owner, repo] = options.repository.split('/');
+    if (!owner || !repo) {
+      throw new Error(`publish.repository must be owner/repo, got "${options.repository}"`);
+    }
+    return { owner, repo };
+  }
+  const url = await resolveSourceUrl(formatSourceSpec(source));
+  const repository = url ? parseGitHubRepository(url) : undefined;
+  if (!repository) {
+    throw new Error(`Cannot tell the GitHub repository of ${source.location}; set publish.repository to owner/repo`);
+  }
+  return repository;
+}
+
+// Helper function to list the files to commit, next to the analyzed
+// subdirectory's README for monorepos
+export function publishFiles(content: PublishContent, options: PublishOptions): PublishFile[] {
+  const dir = content.source.subdir || '';
+  const files: PublishFile[] = [];
+  let readme = content.readme;
+
+  if (options.includeImages) {
+    const images: [string, string | undefined][] = [
+      ['logo.png', content.logoPath],
+      ['cover.png', content.coverPath],
+    ];
+    for (const [name, imagePath] of images) {
+      if (imagePath && fs.existsSync(imagePath)) {
+        files.push({
+          path: path.posix.join(dir, 'assets', name),
+          content: fs.readFileSync(imagePath).toString('base64'),
+          encoding: 'base64',
+        });
+      }
+    }
+    if (files.some((file) => file.path.endsWith('cover.png')) && !readme.includes('assets/cover.png')) {
+      readme = `![${content.projectName}](assets/cover.png)\n\n${readme}`;
+    }
+  }
+
+  return [{ path: path.posix.join(dir, 'README.md'), content: readme, encoding: 'utf-8' }, ...files];
+}
+
+// Helper function to describe how a text file changes, e.g. "updated (+12/-3 lines)"
+function describeChange(previous: string | undefined, next: string): string {
+  if (previous === undefined) {
+    return `added (${next.split('\n').length} lines)`;
+  }
+  if (previous === next) {
+    return 'unchanged';
+  }
+  const before = new Set(previous.split('\n'));
+  const after = new Set(next.split('\n'));
+  const added = [...after].filter((line) => !before.has(line)).length;
+  const removed = [...before].filter((line) => !after.has(line)).length;
+  return `updated (+${added}/-${removed} lines)`;
+}
+
+// Helper function to write the pull request description from the changes
+export function formatPullRequestBody(
+  content: PublishContent,
+  files: PublishFile[],
+  changes: Record<string, string>
+): string {
+  const lines = [
+    `Generated documentation for **${content.projectName}**: ${content.briefDescription}`,
+    '',
+    '### Changes',
+    '',
+    ...files.map((file) => `- \`${file.path}\`: ${changes[file.path] || (file.encoding === 'base64' ? 'image' : 'text')}`),
+    '',
+  ];
+  if (content.source.commit) {
+    lines.push(`Generated from commit ${content.source.commit}. Please review the README before merging.`);
+  } else {
+    lines.push('Please review the README before merging.');
+  }
+  return lines.join('\n');
+}
+
+// Helper function to read a file's text on a branch, undefined when it doesn't exist
+async function readRemoteFile(
+  octokit: Octokit,
+  repository: { owner: string; repo: string },
+  filePath: string,
+  ref: string
+): Promise<string | undefined> {
+  try {
+    const { data } = await octokit.repos.getContent({ ...repository, path: filePath, ref });
+    if (Array.isArray(data) || data.type !== 'file' || data.content === undefined) {
+      return undefined;
+    }
+    return Buffer.from(data.content, 'base64').toString('utf8');
+  } catch (error) {
+    if ((error as { status?: number }).status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+function describeGitHubError(error: unknown, options: PublishOptions, repository: { owner: string; repo: string }) {
+  const status = (error as { status?: number }).status;
+  if (status === 401) {
+    return new Error(`GitHub rejected the token in ${options.tokenEnv}`);
+  }
+  if (status === 403 || status === 404) {
+    return new Error(
+      `${repository.owner}/${repository.repo} was not found at ${options.baseUrl}, or the token in ${options.tokenEnv} can't push to it`
+    );
+  }
+  return error;
+}
+
+// Helper function to create a GitHub client authenticated from options.tokenEnv
+function createOctokit(options: PublishOptions, retry: RetryPolicy, hooks: RetryOptions): Octokit {
+  const token = process.env[options.tokenEnv];
+  if (!token) {
+    throw new Error(`Set ${options.tokenEnv} to a GitHub token that can push to the repository`);
+  }
+  const octokit = new Octokit({ auth: token, baseUrl: options.baseUrl });
+  // Every API call goes through the shared retry and timeout policy
+  octokit.hook.wrap('request', (request, requestOptions) =>
+    withRetry(`GitHub ${requestOptions.method} ${requestOptions.url}`, retry, async (signal) =>
+      request({ ...requestOptions, request: { ...requestOptions.request, signal } }),
+      hooks
+    )
+  );
+  return octokit;
+}
+
+// Helper function to commit the README (and images) onto a branch in one
+// commit and open a pull request, or update the one already open. A client
+// passed in is used as it is, with its own authentication and retries;
+// otherwise hooks.signal cancels the request in flight.
+export async function publishReadme(
+  content: PublishContent,
+  options: PublishOptions,
+  retry: RetryPolicy,
+  client?: Octokit,
+  hooks: RetryOptions = {}
+): Promise<PublishResult> {
+  const logger = hooks.logger || console;
+  const octokit = client || createOctokit(options, retry, hooks);
+  const repository = await resolveRepository(options, content.source);
+  const files = publishFiles(content, options);
+
+  try {
+    const { data: repo } = await octokit.repos.get(repository);
+    const baseBranch = options.baseBranch || repo.default_branch;
+    const { data: baseRef } = await octokit.git.getRef({ ...repository, ref: `heads/${baseBranch}` });
+    const { data: baseCommit } = await octokit.git.getCommit({ ...repository, commit_sha: baseRef.object.sha });
+
+    const changes: Record<string, string> = {};
+    for (const file of files) {
+      if (file.encoding === 'utf-8') {
+        changes[file.path] = describeChange(
+          await readRemoteFile(octokit, repository, file.path, baseBranch),
+          file.content
+        );
+      }
+    }
+
+    const tree = [];
+    for (const file of files) {
+      const { data: blob } = await octokit.git.createBlob({ ...repository, content: file.content, encoding: file.encoding });
+      tree.push({ path: file.path, mode: '100644' as const, type: 'blob' as const, sha: blob.sha });
+    }
+    const { data: newTree } = await octokit.git.createTree({ ...repository, base_tree: baseCommit.tree.sha, tree });
+    const { data: commit } = await octokit.git.createCommit({
+      ...repository,
+      message: `Update README for ${content.projectName}`,
+      tree: newTree.sha,
+      parents: [baseCommit.sha],
+    });
+
+    // The branch is ours, so a previous run's commit is replaced
+    try {
+      await octokit.git.createRef({ ...repository, ref: `refs/heads/${options.branch}`, sha: commit.sha });
+    } catch (error) {
+      if ((error as { status?: number }).status !== 422) {
+        throw error;
+      }
+      await octokit.git.updateRef({ ...repository, ref: `heads/${options.branch}`, sha: commit.sha, force: true });
+    }
+
+    const title = `Update README for ${content.projectName}`;
+    const body = formatPullRequestBody(content, files, changes);
+    const { data: open } = await octokit.pulls.list({
+      ...repository,
+      head: `${repository.owner}:${options.branch}`,
+      base: baseBranch,
+      state: 'open',
+    });
+    const pullRequest = open[0]
+      ? (await octokit.pulls.update({ ...repository, pull_number: open[0].number, title, body })).data
+      : (
+          await octokit.pulls.create({
+            ...repository,
+            title,
+            body,
+            head: options.branch,
+            base: baseBranch,
+            draft: options.draft,
+          })
+        ).data;
+
+    return {
+      pullRequestUrl: pullRequest.html_url,
+      branch: options.branch,
+      commit: commit.sha,
+      files: files.map((file) => file.path),
+    };
+  } catch (error) {
+    logger.error('Error publishing the README:', error);
+    throw describeGitHubError(error, options, repository);
+  }
+}
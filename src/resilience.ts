@@ -0,0 +1,218 @@
+import { Logger } from './artifacts';
+
+// One retry, timeout and rate-limit policy for every OpenAI, GitHub and HTTP call
+export interface RetryPolicy {
+  // Attempts after the first one
+  retries: number;
+  // Backoff before the first retry, doubled on each one and jittered
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Upper bound for a single attempt
+  timeoutMs: number;
+}
+
+export interface RetryOptions {
+  // Where retries are reported, defaults to the console
+  logger?: Logger;
+  // Cancels the attempt in flight and any further retries
+  signal?: AbortSignal;
+}
+
+// An HTTP response that wasn't ok, for fetch calls
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly headers: Headers
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+// A call that failed for good: not retryable, or out of attempts
+export class ExternalCallError extends Error {
+  constructor(
+    message: string,
+    readonly label: string,
+    readonly status: number | undefined,
+    readonly attempts: number,
+    options: { cause: unknown }
+  ) {
+    super(message, options);
+    this.name = 'ExternalCallError';
+  }
+}
+
+// A pipeline stage that failed, so the user knows what to rerun or fix
+export class StageError extends Error {
+  constructor(
+    readonly stage: string,
+    cause: unknown
+  ) {
+    super(`Stage ${stage} failed: ${cause instanceof Error ? cause.message : String(cause)}`, { cause });
+    this.name = 'StageError';
+  }
+}
+
+// Statuses worth retrying: timeouts, rate limits and server errors
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+const RETRYABLE_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET'];
+
+// Helper function to read the HTTP status of an error from fetch, the openai
+// SDK (error.status) or Octokit (error.status, error.response.status)
+export function errorStatus(error: unknown): number | undefined {
+  const value = error as { status?: unknown; response?: { status?: unknown } };
+  const status = value?.status ?? value?.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+// Helper function to read a response header from any of the error shapes
+function errorHeader(error: unknown, name: string): string | undefined {
+  const value = error as { headers?: unknown; response?: { headers?: unknown } };
+  for (const headers of [value?.headers, value?.response?.headers]) {
+    if (headers instanceof Headers) {
+      return headers.get(name) ?? undefined;
+    }
+    if (headers && typeof headers === 'object') {
+      const header = (headers as Record<string, unknown>)[name];
+      if (typeof header === 'string') {
+        return header;
+      }
+    }
+  }
+  return undefined;
+}
+
+// Helper function to read how long the server asked us to wait, in milliseconds
+export function retryAfterMs(error: unknown): number | undefined {
+  // Sent by the OpenAI API alongside Retry-After
+  const milliseconds = errorHeader(error, 'retry-after-ms');
+  if (milliseconds && Number.isFinite(Number(milliseconds))) {
+    return Number(milliseconds);
+  }
+  const header = errorHeader(error, 'retry-after');
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof TimeoutError) {
+    return true;
+  }
+  const status = errorStatus(error);
+  if (status !== undefined) {
+    return RETRYABLE_STATUSES.includes(status);
+  }
+  // Connection errors: openai's APIConnectionError, fetch's TypeError with a cause, Node socket errors
+  const value = error as { name?: string; code?: string; cause?: { code?: string } };
+  return (
+    value?.name === 'APIConnectionError' ||
+    RETRYABLE_CODES.includes(value?.code || '') ||
+    RETRYABLE_CODES.includes(value?.cause?.code || '')
+  );
+}
+
+// Helper function to compute the wait before a retry: the server's Retry-After
+// when given, else exponential backoff with jitter so parallel calls spread out.
+// Either way it is capped at maxDelayMs, so a server can't stall the run.
+export function retryDelay(error: unknown, attempt: number, policy: RetryPolicy): number {
+  const requested = retryAfterMs(error);
+  if (requested !== undefined) {
+    return Math.min(requested, policy.maxDelayMs);
+  }
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
+
+// Helper function to wait before a retry, rejecting with the signal's reason
+// as soon as it is aborted
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Helper function to run an external call under the policy. fn gets an
+// AbortSignal that fires when the attempt times out or options.signal is
+// aborted, and must pass it on to the client so the request is actually
+// cancelled. A cancelled call is never retried.
+export async function withRetry<T>(
+  label: string,
+  policy: RetryPolicy,
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const logger = options.logger || console;
+  for (let attempt = 0; ; attempt++) {
+    options.signal?.throwIfAborted();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), policy.timeoutMs);
+    try {
+      return await fn(options.signal ? AbortSignal.any([controller.signal, options.signal]) : controller.signal);
+    } catch (caught) {
+      options.signal?.throwIfAborted();
+      const error = controller.signal.aborted
+        ? new TimeoutError(`${label} timed out after ${policy.timeoutMs}ms`)
+        : caught;
+      const status = errorStatus(error);
+      if (!isRetryable(error) || attempt >= policy.retries) {
+        const reason = (error as Error)?.message || String(error);
+        throw new ExternalCallError(
+          `${label} failed after ${attempt + 1} attempt${attempt === 0 ? '' : 's'}: ${reason}`,
+          label,
+          status,
+          attempt + 1,
+          { cause: error }
+        );
+      }
+      const delay = retryDelay(error, attempt, policy);
+      logger.log(
+        `${label} failed (${status === 429 ? 'rate limited' : status ?? (error as Error).message}), retrying in ${(delay / 1000).toFixed(1)}s (${attempt + 1}/${policy.retries})`
+      );
+      await sleep(delay, options.signal);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// Helper function to download a URL under the policy, treating non-2xx
+// responses as errors; the timeout covers reading the body too
+export async function fetchBuffer(url: string, policy: RetryPolicy, options: RetryOptions = {}): Promise<Buffer> {
+  const label = `GET ${url.startsWith('data:') ? 'data URL' : new URL(url).host}`;
+  return withRetry(
+    label,
+    policy,
+    async (signal) => {
+      const response = await fetch(url, { signal });
+      if (!response.ok) {
+        throw new HttpError(`${label} returned HTTP ${response.status}`, response.status, response.headers);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    },
+    options
+  );
+}
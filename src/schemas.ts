@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+// Schemas for every model result; field descriptions double as prompt instructions
+
+export const ReadmeResultSchema = z.object({
+  projectName: z
+    .string()
+    .trim()
+    .min(1)
+    .max(80)
+    .describe('The project name, without a tagline'),
+  briefDescription: z
+    .string()
+    .trim()
+    .min(20)
+    .max(280)
+    .describe('A one or two sentence description of the project, at most 280 characters'),
+  readmeContent: z
+    .string()
+    .trim()
+    .min(100)
+    .describe('The full README in Markdown, with newlines escaped as \\n'),
+});
+
+export type ReadmeResult = z.infer<typeof ReadmeResultSchema>;
+
+export const DetailedDescriptionSchema = z
+  .string()
+  .trim()
+  .min(200, 'The detailed description must be at least 200 characters long')
+  .describe('A very detailed description of the full application');
+
+// Roughly 1 to 4.5 minutes of speech at 150 words per minute
+export const VideoScriptSchema = z
+  .string()
+  .trim()
+  .refine(
+    (script) => countWords(script) >= 150,
+    'The script must be at least 150 words long'
+  )
+  .refine(
+    (script) => countWords(script) <= 650,
+    'The script must be at most 650 words long'
+  )
+  .refine(
+    (script) => !/^#{1,6}\s/m.test(script),
+    'The script must not contain Markdown headers'
+  )
+  .describe('A voiceover script for a 2 to 4 minute video');
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// Helper function to render an object schema as a JSON template for prompts
+export function describeObjectSchema(schema: z.AnyZodObject): string {
+  const fields = Object.entries(schema.shape).map(
+    ([key, field]) =>
+      `  ${JSON.stringify(key)}: "<${(field as z.ZodTypeAny).description || key}>"`
+  );
+  return `{\n${fields.join(',\n')}\n}`;
+}
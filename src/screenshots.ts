@@ -0,0 +1,478 @@
+import { ChildProcess, spawn } from 'child_process';
+import fs from 'fs';
+import http from 'http';
+import net from 'net';
+import path from 'path';
+import { Page, chromium } from 'playwright';
+import { Logger } from './artifacts';
+
+export interface Viewport {
+  name: string;
+  width: number;
+  height: number;
+}
+
+export interface ScreenshotOptions {
+  // 'capture' runs the project and screenshots it, 'generate' asks the image
+  // model, 'auto' captures and falls back to generating when the app won't start
+  mode: 'auto' | 'capture' | 'generate';
+  // Every page is captured at each viewport, in order
+  viewports: Viewport[];
+  // Run the project's install, build and start scripts. Off by default: they are
+  // the analyzed repository's code, so only built static files are served
+  runScripts: boolean;
+  // Install dependencies before starting the project, when node_modules is missing
+  install: boolean;
+  // Upper bound for installing and building
+  installTimeoutMs: number;
+  // Upper bound for the app to start answering requests
+  startTimeoutMs: number;
+}
+
+// How the project is served: a package script, or a directory of built files
+type ServeMethod =
+  | { kind: 'script'; script: string }
+  | { kind: 'static'; root: string; build?: string };
+
+interface RunningApp {
+  url: string;
+  stop(): void;
+}
+
+// Directories with built static sites, checked in order
+const STATIC_DIRS = ['dist', 'build', 'out', 'public', '.'];
+
+const LOCAL_URL = /https?:\/\/(?:localhost|127\.0\.0\.1|0\.0\.0\.0|\[::1?\]):(\d+)[^\s'"]*/;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+};
+
+function readScripts(dir: string, logger: Logger): Record<string, string> {
+  const manifestPath = path.join(dir, 'package.json');
+  if (!fs.existsSync(manifestPath)) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf8')).scripts || {};
+  } catch (error) {
+    logger.error(`Error reading ${manifestPath}:`, error);
+    return {};
+  }
+}
+
+// Helper function to pick how to serve the project: the dev server, the start
+// script, or built static files (building them first when there's a build script).
+// Without runScripts only files that are already built are served.
+export function detectServeMethod(dir: string, runScripts: boolean, logger: Logger = console): ServeMethod | undefined {
+  const scripts = runScripts ? readScripts(dir, logger) : {};
+  if (scripts.dev) {
+    return { kind: 'script', script: 'dev' };
+  }
+  if (scripts.start) {
+    return { kind: 'script', script: 'start' };
+  }
+  for (const staticDir of STATIC_DIRS) {
+    if (fs.existsSync(path.join(dir, staticDir, 'index.html'))) {
+      return { kind: 'static', root: path.join(dir, staticDir) };
+    }
+  }
+  if (scripts.build) {
+    return { kind: 'static', root: dir, build: 'build' };
+  }
+  return undefined;
+}
+
+function packageManager(dir: string): string {
+  if (fs.existsSync(path.join(dir, 'pnpm-lock.yaml'))) {
+    return 'pnpm';
+  }
+  if (fs.existsSync(path.join(dir, 'yarn.lock'))) {
+    return 'yarn';
+  }
+  return 'npm';
+}
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once('error', reject);
+    server.listen(0, () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+// Project processes still running, stopped if this process exits first
+const runningProcesses = new Set<ChildProcess>();
+let exitHandlerInstalled = false;
+
+function installExitHandler() {
+  if (exitHandlerInstalled) {
+    return;
+  }
+  exitHandlerInstalled = true;
+  process.on('exit', () => {
+    for (const child of runningProcesses) {
+      stopProcess(child);
+    }
+  });
+}
+
+// Helper function to stop a child started with detached: true, including its own children
+function stopProcess(child: ChildProcess) {
+  runningProcesses.delete(child);
+  if (child.pid === undefined || child.exitCode !== null) {
+    return;
+  }
+  try {
+    process.kill(-child.pid, 'SIGTERM');
+  } catch {
+    child.kill('SIGTERM');
+  }
+}
+
+// Environment variables the project's scripts may see: enough for package
+// managers to run, never the model, GitHub or other tokens of this process
+const PROJECT_ENV = [
+  'PATH',
+  'HOME',
+  'USER',
+  'LOGNAME',
+  'SHELL',
+  'LANG',
+  'LC_ALL',
+  'TERM',
+  'TMPDIR',
+  'TEMP',
+  'TMP',
+  'HTTP_PROXY',
+  'HTTPS_PROXY',
+  'NO_PROXY',
+  'http_proxy',
+  'https_proxy',
+  'no_proxy',
+  'NODE_EXTRA_CA_CERTS',
+  // Needed to run anything on Windows
+  'SYSTEMROOT',
+  'COMSPEC',
+  'PATHEXT',
+  'APPDATA',
+  'LOCALAPPDATA',
+];
+
+// Helper function to build the environment of the project's scripts from env
+export function projectEnv(env: NodeJS.ProcessEnv, extra: NodeJS.ProcessEnv = {}): NodeJS.ProcessEnv {
+  const kept = Object.fromEntries(PROJECT_ENV.filter((name) => env[name] !== undefined).map((name) => [name, env[name]]));
+  return { ...kept, BROWSER: 'none', CI: '1', ...extra };
+}
+
+function spawnInProject(command: string, args: string[], dir: string, env: NodeJS.ProcessEnv = {}): ChildProcess {
+  installExitHandler();
+  const child = spawn(command, args, {
+    cwd: dir,
+    env: projectEnv(process.env, env),
+    stdio: ['ignore', 'pipe', 'pipe'],
+    // Own process group, so the whole tree can be stopped
+    detached: true,
+  });
+  runningProcesses.add(child);
+  child.once('exit', () => runningProcesses.delete(child));
+  return child;
+}
+
+// Helper function to run install or build commands to completion, stopping
+// them when signal is aborted
+function runToCompletion(
+  command: string,
+  args: string[],
+  dir: string,
+  timeoutMs: number,
+  logger: Logger,
+  signal?: AbortSignal
+): Promise<void> {
+  signal?.throwIfAborted();
+  logger.log(`Running ${command} ${args.join(' ')} in ${dir}`);
+  return new Promise((resolve, reject) => {
+    const child = spawnInProject(command, args, dir);
+    const onAbort = () => {
+      stopProcess(child);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let output = '';
+    const collect = (chunk: Buffer) => {
+      output = (output + chunk.toString()).slice(-4000);
+    };
+    child.stdout?.on('data', collect);
+    child.stderr?.on('data', collect);
+
+    const timer = setTimeout(() => {
+      stopProcess(child);
+      reject(new Error(`${command} ${args.join(' ')} did not finish within ${timeoutMs}ms`));
+    }, timeoutMs);
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      reject(error);
+    });
+    child.on('exit', (code) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`${command} ${args.join(' ')} exited with code ${code}:\n${output}`));
+      }
+    });
+  });
+}
+
+// Helper function to serve a directory, falling back to index.html for client-side routes
+async function serveStatic(root: string): Promise<RunningApp> {
+  const server = http.createServer((request, response) => {
+    const urlPath = decodeURIComponent((request.url || '/').split('?')[0]);
+    let filePath = path.join(root, path.normalize(urlPath));
+    // A prefix check would let /srv/app-secrets through for /srv/app
+    if (path.relative(root, filePath).startsWith('..')) {
+      response.writeHead(403).end();
+      return;
+    }
+    if (fs.existsSync(filePath) && fs.statSync(filePath).isDirectory()) {
+      filePath = path.join(filePath, 'index.html');
+    }
+    if (!fs.existsSync(filePath)) {
+      filePath = fs.existsSync(`${filePath}.html`) ? `${filePath}.html` : path.join(root, 'index.html');
+    }
+    response.writeHead(200, {
+      'Content-Type': CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream',
+    });
+    fs.createReadStream(filePath).pipe(response);
+  });
+
+  const port = await freePort();
+  await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+  return { url: `http://127.0.0.1:${port}`, stop: () => server.close() };
+}
+
+async function isAnswering(url: string): Promise<boolean> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(2000) });
+    return response.status < 500;
+  } catch {
+    return false;
+  }
+}
+
+// Helper function to start a package script and wait until it answers. The URL
+// is taken from the script's output, since dev servers don't all honor PORT.
+async function startScript(
+  dir: string,
+  script: string,
+  timeoutMs: number,
+  logger: Logger,
+  signal?: AbortSignal
+): Promise<RunningApp> {
+  const port = await freePort();
+  const manager = packageManager(dir);
+  logger.log(`Starting ${manager} run ${script} in ${dir}`);
+  const child = spawnInProject(manager, ['run', script], dir, { PORT: String(port) });
+
+  let announcedUrl: string | undefined;
+  let output = '';
+  const collect = (chunk: Buffer) => {
+    const text = chunk.toString();
+    output = (output + text).slice(-4000);
+    const match = text.replace(/\x1b\[[0-9;]*m/g, '').match(LOCAL_URL);
+    if (match && !announcedUrl) {
+      announcedUrl = `http://localhost:${match[1]}`;
+    }
+  };
+  child.stdout?.on('data', collect);
+  child.stderr?.on('data', collect);
+
+  const deadline = Date.now() + timeoutMs;
+  try {
+    while (Date.now() < deadline) {
+      signal?.throwIfAborted();
+      if (child.exitCode !== null) {
+        throw new Error(`${manager} run ${script} exited with code ${child.exitCode}:\n${output}`);
+      }
+      for (const url of [announcedUrl, `http://localhost:${port}`]) {
+        if (url && (await isAnswering(url))) {
+          return { url, stop: () => stopProcess(child) };
+        }
+      }
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+    throw new Error(`${manager} run ${script} did not answer within ${timeoutMs}ms:\n${output}`);
+  } catch (error) {
+    stopProcess(child);
+    throw error;
+  }
+}
+
+// Helper function to install, build if needed and start the project
+async function startProject(
+  dir: string,
+  options: ScreenshotOptions,
+  logger: Logger,
+  signal?: AbortSignal
+): Promise<RunningApp> {
+  const method = detectServeMethod(dir, options.runScripts, logger);
+  if (!method) {
+    throw new Error(
+      options.runScripts
+        ? 'No dev or start script and no built index.html found'
+        : 'No built index.html found; set screenshots.runScripts to start the project with its own scripts'
+    );
+  }
+
+  const manager = packageManager(dir);
+  const needsPackages = method.kind === 'script' || method.build;
+  if (needsPackages && options.install && !fs.existsSync(path.join(dir, 'node_modules'))) {
+    await runToCompletion(manager, ['install'], dir, options.installTimeoutMs, logger, signal);
+  }
+
+  if (method.kind === 'script') {
+    return startScript(dir, method.script, options.startTimeoutMs, logger, signal);
+  }
+  if (method.build) {
+    await runToCompletion(manager, ['run', method.build], dir, options.installTimeoutMs, logger, signal);
+    const built = STATIC_DIRS.map((staticDir) => path.join(dir, staticDir)).find((root) =>
+      fs.existsSync(path.join(root, 'index.html'))
+    );
+    if (!built) {
+      throw new Error(`${manager} run ${method.build} did not produce an index.html`);
+    }
+    return serveStatic(built);
+  }
+  return serveStatic(method.root);
+}
+
+// Helper function to list static routes from file-based routing (Next.js pages/ and app/)
+export function discoverFileRoutes(dir: string): string[] {
+  const routes = new Set<string>(['/']);
+  const visit = (base: string, current: string, appRouter: boolean) => {
+    if (!fs.existsSync(current)) {
+      return;
+    }
+    for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+      const entryPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('_') && entry.name !== 'api' && !entry.name.includes('[')) {
+          visit(base, entryPath, appRouter);
+        }
+        continue;
+      }
+      if (!/\.(jsx?|tsx?|mdx)$/.test(entry.name) || entry.name.includes('[')) {
+        continue;
+      }
+      const name = entry.name.replace(/\.\w+$/, '');
+      if (appRouter ? name !== 'page' : name.startsWith('_')) {
+        continue;
+      }
+      const segments = path
+        .relative(base, appRouter ? current : path.join(current, name))
+        .split(path.sep)
+        // Route groups like (marketing) don't appear in the URL
+        .filter((segment) => segment && segment !== 'index' && !/^\(.*\)$/.test(segment));
+      routes.add(`/${segments.join('/')}`);
+    }
+  };
+
+  for (const root of ['', 'src']) {
+    visit(path.join(dir, root, 'pages'), path.join(dir, root, 'pages'), false);
+    visit(path.join(dir, root, 'app'), path.join(dir, root, 'app'), true);
+  }
+  return [...routes];
+}
+
+// Helper function to collect same-origin links from a page, as routes
+async function collectLinks(page: Page, baseUrl: string): Promise<string[]> {
+  const hrefs = await page.$$eval('a[href]', (anchors) => anchors.map((anchor) => (anchor as HTMLAnchorElement).href));
+  const origin = new URL(baseUrl).origin;
+  return hrefs
+    .map((href) => new URL(href))
+    .filter((url) => url.origin === origin)
+    .map((url) => url.pathname);
+}
+
+// Helper function to run the project from dir and screenshot its pages at each
+// viewport into screenshot1.png... in outputDir. Returns the saved paths.
+// Aborting signal stops the project and the browser.
+export async function captureScreenshots(
+  dir: string,
+  count: number,
+  outputDir: string,
+  options: ScreenshotOptions,
+  logger: Logger = console,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const app = await startProject(dir, options, logger, signal);
+  const browser = await chromium.launch().catch((error) => {
+    app.stop();
+    throw error;
+  });
+  try {
+    const page = await browser.newPage();
+    logger.log(`App is up at ${app.url}`);
+
+    // Routes from file-based routing first, then whatever the home page links to
+    const routes = discoverFileRoutes(dir);
+    await page.goto(app.url, { waitUntil: 'networkidle', timeout: options.startTimeoutMs });
+    for (const route of await collectLinks(page, app.url)) {
+      if (!routes.includes(route)) {
+        routes.push(route);
+      }
+    }
+
+    const shots = routes.flatMap((route) => options.viewports.map((viewport) => ({ route, viewport })));
+    const saved: string[] = [];
+    for (const { route, viewport } of shots) {
+      if (saved.length >= count) {
+        break;
+      }
+      signal?.throwIfAborted();
+      try {
+        await page.setViewportSize({ width: viewport.width, height: viewport.height });
+        const response = await page.goto(new URL(route, app.url).toString(), {
+          waitUntil: 'networkidle',
+          timeout: options.startTimeoutMs,
+        });
+        if (response && response.status() >= 400) {
+          logger.log(`Skipping ${route}: HTTP ${response.status()}`);
+          continue;
+        }
+        const screenshotPath = path.join(outputDir, `screenshot${saved.length + 1}.png`);
+        await page.screenshot({ path: screenshotPath });
+        saved.push(screenshotPath);
+        logger.log(`Captured ${route} at ${viewport.name} (${viewport.width}x${viewport.height})`);
+      } catch (error) {
+        logger.error(`Error capturing ${route} at ${viewport.name}:`, error);
+      }
+    }
+
+    if (saved.length === 0) {
+      throw new Error('The app started but no page could be captured');
+    }
+    return saved;
+  } finally {
+    await browser.close();
+    app.stop();
+  }
+}
@@ -0,0 +1,199 @@
+// A project-specific secret format, e.g. an internal API's token prefix
+export interface SecretPattern {
+  name: string;
+  // Regular expression source; a named group "secret" limits what is redacted
+  pattern: string;
+  flags?: string;
+}
+
+export interface SecretOptions {
+  // 'redact' replaces secrets and continues, 'abort' stops before any prompt is built
+  onFound: 'redact' | 'abort';
+  // Added to the built-in detectors
+  patterns: SecretPattern[];
+  // Regular expressions for values that are known to be safe, e.g. well-known test keys
+  allow: string[];
+  // Minimum Shannon entropy, in bits per character, for an unrecognized string to count as a secret
+  entropyThreshold: number;
+}
+
+export interface SecretFinding {
+  file: string;
+  line: number;
+  detector: string;
+  // First characters only, so the report itself doesn't leak the secret
+  preview: string;
+}
+
+interface Detector {
+  name: string;
+  regex: RegExp;
+}
+
+// Known secret formats; where context is needed to tell a secret from an
+// ordinary value, the match includes it and the "secret" group is redacted
+const BUILTIN_DETECTORS: Detector[] = [
+  { name: 'privateKeyBlock', regex: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  {
+    name: 'ethereumPrivateKey',
+    regex: /(?:priv|secret|signer|wallet|deployer|\bpk\b|key)[^\n]{0,40}?\b(?<secret>(?:0x)?[0-9a-fA-F]{64})\b/gi,
+  },
+  {
+    name: 'mnemonic',
+    regex: /(?:mnemonic|seed|phrase)[^\n]{0,40}?["'`](?<secret>[a-z]{3,8}(?: [a-z]{3,8}){11,23})["'`]/gi,
+  },
+  { name: 'awsAccessKey', regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: 'githubToken', regex: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: 'openaiKey', regex: /\bsk-(?:proj-|svcacct-)?[A-Za-z0-9_-]{20,}/g },
+  { name: 'anthropicKey', regex: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: 'stripeKey', regex: /\b[sr]k_live_[0-9a-zA-Z]{20,}\b/g },
+  { name: 'slackToken', regex: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: 'googleApiKey', regex: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: 'jwt', regex: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  { name: 'rpcUrlKey', regex: /(?:alchemy\.com\/v2|infura\.io\/v3|quiknode\.pro)\/(?<secret>[A-Za-z0-9_-]{16,})/g },
+  { name: 'connectionStringPassword', regex: /\b[a-z][a-z0-9+.-]*:\/\/[^:/\s"'@]+:(?<secret>[^@\s"'/]{3,})@/g },
+  {
+    // KEY=value in .env files and shell scripts, apiKey: "value" in code
+    name: 'secretAssignment',
+    regex:
+      /\b[\w.-]*(?:api[_-]?key|secret|token|password|passwd|private[_-]?key|credential)[\w.-]*["']?\s*[:=]\s*(?<quote>["'`])?(?<secret>[^\s"'`#,;]{8,})/gi,
+  },
+];
+
+// Values that look like assignments but are not secrets: environment lookups,
+// placeholders, plain numbers and public addresses
+const PLACEHOLDER =
+  /^(?:process\.env|import\.meta\.env|os\.environ|env\(|\$\{|\$[A-Z_]|<|your[_-]|xxx|\*+$|changeme|example|placeholder|true$|false$|null$|undefined$|\d+$|0x[0-9a-fA-F]{40}$)/i;
+
+// Code rather than a value: property accesses, calls, indexing and type
+// annotations, e.g. apiKey = config.apiKeyEnv or secrets: SecretFinding[].
+// Only unquoted values in source files can be code; a quoted or .env value
+// shaped like one (a Discord token, "Summer2024.Secret") is still a secret.
+const CODE_EXPRESSION = /^[A-Za-z_$][\w$]*(?:\??\.[A-Za-z_$][\w$]*)*(?:\??\.[A-Za-z_$][\w$]*|[([<?!])/;
+
+// .env, .env.local, production.env and the like, where values are never code
+const ENV_FILE = /(?:^|\/)\.env(?:\.[\w.-]+)?$|\.env$/;
+
+// Quoted strings long enough to be a token, checked for entropy
+const QUOTED_TOKEN = /["'`](?<secret>[A-Za-z0-9+/_=-]{24,})["'`]/dg;
+
+// Helper function to measure how random a string looks, in bits per character
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+// Helper function to tell a random token from a long identifier or path:
+// mixed case and digits, and high entropy
+function looksRandom(value: string, threshold: number): boolean {
+  return /[a-z]/.test(value) && /[A-Z]/.test(value) && /\d/.test(value) && shannonEntropy(value) >= threshold;
+}
+
+function compileDetectors(options: SecretOptions): Detector[] {
+  return [
+    ...BUILTIN_DETECTORS,
+    ...options.patterns.map((pattern) => {
+      const flags = pattern.flags || '';
+      return { name: pattern.name, regex: new RegExp(pattern.pattern, flags.includes('g') ? flags : `${flags}g`) };
+    }),
+  ].map(({ name, regex }) => ({
+    name,
+    // Indices locate the "secret" group within the match
+    regex: regex.flags.includes('d') ? regex : new RegExp(regex.source, `${regex.flags}d`),
+  }));
+}
+
+// Helper function to find secrets in a file's content and replace each with
+// [REDACTED:<detector>]. filePath is only used in the findings.
+export function redactSecrets(
+  content: string,
+  filePath: string,
+  options: SecretOptions
+): { content: string; findings: SecretFinding[] } {
+  const allowed = options.allow.map((pattern) => new RegExp(pattern));
+  const spans: { start: number; end: number; detector: string }[] = [];
+  const envFile = ENV_FILE.test(filePath);
+
+  const addMatch = (detector: string, match: RegExpMatchArray) => {
+    const secret = match.groups?.secret ?? match[0];
+    if (allowed.some((pattern) => pattern.test(secret))) {
+      return;
+    }
+    const [start, end] = match.indices?.groups?.secret ?? match.indices![0];
+    spans.push({ start, end, detector });
+  };
+
+  for (const detector of compileDetectors(options)) {
+    for (const match of content.matchAll(detector.regex)) {
+      const secret = match.groups?.secret ?? match[0];
+      // Assignments need a value that looks like a credential rather than a word
+      const wordLike = !/\d/.test(secret) && shannonEntropy(secret) < 3.5;
+      const code = !match.groups?.quote && !envFile && CODE_EXPRESSION.test(secret);
+      if (detector.name === 'secretAssignment' && (PLACEHOLDER.test(secret) || code || wordLike)) {
+        continue;
+      }
+      addMatch(detector.name, match);
+    }
+  }
+  for (const match of content.matchAll(QUOTED_TOKEN)) {
+    if (looksRandom(match.groups!.secret, options.entropyThreshold)) {
+      addMatch('highEntropyString', match);
+    }
+  }
+
+  if (spans.length === 0) {
+    return { content, findings: [] };
+  }
+
+  // Overlapping matches are merged, keeping the first detector's name
+  spans.sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: typeof spans = [];
+  for (const span of spans) {
+    const last = merged[merged.length - 1];
+    if (last && span.start < last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+
+  let redacted = '';
+  let position = 0;
+  const findings: SecretFinding[] = [];
+  for (const span of merged) {
+    const secret = content.slice(span.start, span.end);
+    redacted += `${content.slice(position, span.start)}[REDACTED:${span.detector}]`;
+    position = span.end;
+    findings.push({
+      file: filePath,
+      line: content.slice(0, span.start).split('\n').length,
+      detector: span.detector,
+      preview: `${secret.slice(0, Math.min(4, Math.floor(secret.length / 4)))}…`,
+    });
+  }
+  return { content: redacted + content.slice(position), findings };
+}
+
+// Helper function to render the findings as a Markdown report for the user
+export function formatSecretReport(findings: SecretFinding[]): string {
+  if (findings.length === 0) {
+    return '# Secret scan\n\nNo secrets were found in the files sent to the model.\n';
+  }
+  const files = new Set(findings.map((finding) => finding.file));
+  return [
+    '# Secret scan',
+    '',
+    `Redacted ${findings.length} possible secret${findings.length === 1 ? '' : 's'} in ${files.size} file${files.size === 1 ? '' : 's'} before building any prompt. Rotate any real credential committed to the repository.`,
+    '',
+    ...findings.map((finding) => `- ${finding.file}:${finding.line} ${finding.detector} \`${finding.preview}\``),
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,285 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { simpleGit } from 'simple-git';
+import { Logger } from './artifacts';
+
+// Where the code comes from: `<url-or-path>[#[<ref>][:<subdir>]]`, e.g.
+// https://github.com/org/repo#v1.2.0:packages/app or ./my-project#:frontend
+export interface SourceSpec {
+  location: string;
+  // Branch, tag or commit SHA
+  ref?: string;
+  // Directory inside the repository to analyze, for monorepos
+  subdir?: string;
+}
+
+export interface RepositorySource {
+  spec: SourceSpec;
+  // Root of the checkout (or the local directory)
+  root: string;
+  // Directory to analyze, root joined with subdir
+  dir: string;
+  // Resolved commit SHA, undefined for local directories outside git
+  commit?: string;
+  // Checked out with --depth 1, see fetchHistory
+  shallow: boolean;
+  // Removes the temporary checkout; a no-op for local directories
+  cleanup(): void;
+}
+
+const COMMIT_SHA = /^[0-9a-f]{7,40}$/i;
+
+// Temporary checkouts still on disk, removed if the process exits first.
+// Signals are left to the host application, see run.ts
+const pendingCheckouts = new Set<string>();
+let exitHandlerInstalled = false;
+
+function installExitHandler() {
+  if (exitHandlerInstalled) {
+    return;
+  }
+  exitHandlerInstalled = true;
+
+  process.on('exit', () => {
+    for (const dir of pendingCheckouts) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+    pendingCheckouts.clear();
+  });
+}
+
+export function parseSourceSpec(spec: string): SourceSpec {
+  const hashIndex = spec.lastIndexOf('#');
+  if (hashIndex === -1) {
+    return { location: spec };
+  }
+
+  const location = spec.slice(0, hashIndex);
+  const fragment = spec.slice(hashIndex + 1);
+  const colonIndex = fragment.indexOf(':');
+  const ref = colonIndex === -1 ? fragment : fragment.slice(0, colonIndex);
+  const subdir = colonIndex === -1 ? '' : fragment.slice(colonIndex + 1);
+
+  return {
+    location,
+    ref: ref || undefined,
+    subdir: subdir || undefined,
+  };
+}
+
+export function formatSourceSpec(spec: SourceSpec): string {
+  if (!spec.ref && !spec.subdir) {
+    return spec.location;
+  }
+  return `${spec.location}#${spec.ref || ''}${spec.subdir ? `:${spec.subdir}` : ''}`;
+}
+
+function isLocalDirectory(location: string): boolean {
+  const resolved = path.resolve(location);
+  return fs.existsSync(resolved) && fs.statSync(resolved).isDirectory();
+}
+
+// Helper function to resolve the subdirectory and make sure it stays inside the checkout
+function resolveSubdir(root: string, subdir?: string): string {
+  if (!subdir) {
+    return root;
+  }
+  const dir = path.resolve(root, subdir);
+  if (path.relative(root, dir).startsWith('..')) {
+    throw new Error(`Subdirectory ${subdir} is outside the repository`);
+  }
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+    throw new Error(`Subdirectory ${subdir} does not exist in the repository`);
+  }
+  return dir;
+}
+
+// Helper function to make a shallow checkout of a branch, tag or commit
+async function shallowClone(url: string, dir: string, ref: string | undefined, logger: Logger): Promise<void> {
+  const git = simpleGit();
+
+  if (!ref) {
+    await git.clone(url, dir, ['--depth', '1']);
+    return;
+  }
+
+  if (!COMMIT_SHA.test(ref)) {
+    // --branch accepts both branches and tags
+    await git.clone(url, dir, ['--depth', '1', '--branch', ref]);
+    return;
+  }
+
+  const repo = simpleGit(dir);
+  await repo.init();
+  await repo.addRemote('origin', url);
+  try {
+    // Most hosts allow fetching a full commit SHA directly
+    await repo.fetch(['--depth', '1', 'origin', ref]);
+    await repo.checkout(['--detach', 'FETCH_HEAD']);
+  } catch {
+    // Abbreviated SHAs need the history to be resolved
+    logger.log(`Shallow fetch of ${ref} failed, fetching full history`);
+    await repo.fetch(['origin']);
+    await repo.checkout(['--detach', ref]);
+  }
+}
+
+// Helper function to open a local directory or check out a git repository into
+// a unique temporary directory. Callers must call cleanup(), see withRepositorySource.
+export async function openRepositorySource(specString: string, logger: Logger = console): Promise<RepositorySource> {
+  const spec = parseSourceSpec(specString);
+
+  // A local directory is used in place unless a specific ref is requested
+  if (isLocalDirectory(spec.location) && !spec.ref) {
+    const root = path.resolve(spec.location);
+    let commit: string | undefined;
+    try {
+      if (await simpleGit(root).checkIsRepo()) {
+        commit = (await simpleGit(root).revparse(['HEAD'])).trim();
+      }
+    } catch {
+      commit = undefined;
+    }
+    return {
+      spec,
+      root,
+      dir: resolveSubdir(root, spec.subdir),
+      commit,
+      shallow: false,
+      cleanup() {},
+    };
+  }
+
+  const url = isLocalDirectory(spec.location)
+    ? `file://${path.resolve(spec.location)}`
+    : spec.location;
+
+  installExitHandler();
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'hackathon-submit-'));
+  pendingCheckouts.add(root);
+  const cleanup = () => {
+    fs.rmSync(root, { recursive: true, force: true });
+    pendingCheckouts.delete(root);
+  };
+
+  try {
+    await shallowClone(url, root, spec.ref, logger);
+    const commit = (await simpleGit(root).revparse(['HEAD'])).trim();
+    return {
+      spec,
+      root,
+      dir: resolveSubdir(root, spec.subdir),
+      commit,
+      shallow: true,
+      cleanup,
+    };
+  } catch (error) {
+    logger.error('Error cloning repository:', error);
+    cleanup();
+    throw error;
+  }
+}
+
+// Helper function to fetch up to depth more commits of a shallow checkout's
+// history. Local directories are used in place and never modified. Returns
+// whether the history is complete.
+export async function fetchHistory(
+  source: RepositorySource,
+  depth: number,
+  logger: Logger = console
+): Promise<boolean> {
+  const git = simpleGit(source.root);
+  if (source.shallow && source.commit) {
+    try {
+      await git.fetch(['--deepen', String(depth), 'origin', source.commit]);
+    } catch (error) {
+      logger.error('Error fetching repository history:', error);
+    }
+  }
+  return (await git.revparse(['--is-shallow-repository'])).trim() !== 'true';
+}
+
+// Helper function to find the commit a source spec points at without checking it
+// out, so cached results can be reused. Returns undefined when that isn't possible:
+// local directories outside git or with uncommitted changes, and abbreviated SHAs.
+export async function resolveSourceCommit(specString: string, logger: Logger = console): Promise<string | undefined> {
+  const spec = parseSourceSpec(specString);
+
+  if (spec.ref && /^[0-9a-f]{40}$/i.test(spec.ref)) {
+    return spec.ref.toLowerCase();
+  }
+  if (spec.ref && COMMIT_SHA.test(spec.ref)) {
+    return undefined;
+  }
+
+  try {
+    if (isLocalDirectory(spec.location) && !spec.ref) {
+      const git = simpleGit(path.resolve(spec.location));
+      if (!(await git.checkIsRepo()) || !(await git.status()).isClean()) {
+        return undefined;
+      }
+      return (await git.revparse(['HEAD'])).trim();
+    }
+
+    const url = isLocalDirectory(spec.location)
+      ? `file://${path.resolve(spec.location)}`
+      : spec.location;
+    const ref = spec.ref || 'HEAD';
+    const refs = (await simpleGit().listRemote([url, ref, `${ref}^{}`]))
+      .split('\n')
+      .map((line) => line.split('\t'))
+      .filter(([sha, name]) => sha && name);
+    // ls-remote matches any ref ending in the pattern (refs/heads/x/main for main), so only
+    // an exact name counts: a branch first, as clone --branch does, then a tag. Annotated
+    // tags are listed twice, and the peeled ^{} entry is the commit
+    const names = ref === 'HEAD' ? ['HEAD'] : [`refs/heads/${ref}`, `refs/tags/${ref}^{}`, `refs/tags/${ref}`, `${ref}^{}`, ref];
+    const match =
+      names.map((name) => refs.find(([, listed]) => listed.trim() === name)).find(Boolean) ||
+      (ref === 'HEAD' ? refs[0] : undefined);
+    return match ? match[0].trim() : undefined;
+  } catch (error) {
+    logger.error('Error resolving repository commit:', error);
+    return undefined;
+  }
+}
+
+// Helper function to turn a git remote (https, ssh:// or scp-like git@host:path)
+// into the repository's web URL
+export function remoteWebUrl(remote: string): string | undefined {
+  const match = remote
+    .trim()
+    .match(/^(?:(?:https?|ssh|git):\/\/)?(?:[^@/]+@)?([^/:]+)(?::\d+)?[:/](.+?)(?:\.git)?\/?$/);
+  return match ? `https://${match[1]}/${match[2]}` : undefined;
+}
+
+// Helper function to find the web URL of a source without checking it out: the
+// location itself, or the origin remote of a local directory. Returns undefined
+// for local directories without a remote.
+export async function resolveSourceUrl(specString: string): Promise<string | undefined> {
+  const { location } = parseSourceSpec(specString);
+  if (!isLocalDirectory(location)) {
+    return remoteWebUrl(location) || location;
+  }
+  try {
+    const remotes = await simpleGit(path.resolve(location)).getRemotes(true);
+    const remote = remotes.find((candidate) => candidate.name === 'origin') || remotes[0];
+    return remote ? remoteWebUrl(remote.refs.fetch) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Helper function to run fn against a repository source and always clean it up
+export async function withRepositorySource<T>(
+  specString: string,
+  fn: (source: RepositorySource) => Promise<T>,
+  logger: Logger = console
+): Promise<T> {
+  const source = await openRepositorySource(specString, logger);
+  try {
+    return await fn(source);
+  } finally {
+    source.cleanup();
+  }
+}
@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import { Logger } from './artifacts';
+import { ChatMessage, LLMProvider } from './providers';
+
+export interface StructuredOptions {
+  // 'json' parses an object out of the response, 'text' validates the raw text
+  format: 'json' | 'text';
+  // Name of the result used in error messages, e.g. 'README'
+  label: string;
+  // How many times the validation error is fed back to the model before failing
+  maxRepairs: number;
+  // Where rejected responses are reported, defaults to the console
+  logger?: Logger;
+}
+
+// Helper function to format zod issues as one line per field
+export function formatValidationError(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => {
+      const field = issue.path.length > 0 ? issue.path.join('.') : '(value)';
+      return `- ${field}: ${issue.message}`;
+    })
+    .join('\n');
+}
+
+// Helper function to find the first complete JSON object in a model response.
+// Prefers a ```json fenced block, then matches braces while respecting strings,
+// and escapes raw control characters inside strings instead of dropping them.
+export function extractJson(response: string): string {
+  const fenced = response.match(/```(?:json)?\s*\n([\s\S]*?)\n```/);
+  const text = fenced ? fenced[1] : response;
+
+  const start = text.indexOf('{');
+  if (start === -1) {
+    throw new Error('No JSON object found in the response');
+  }
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let json = '';
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      } else if (char === '\n') {
+        json += '\\n';
+        continue;
+      } else if (char === '\r') {
+        json += '\\r';
+        continue;
+      } else if (char === '\t') {
+        json += '\\t';
+        continue;
+      } else if (char < ' ') {
+        json += `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`;
+        continue;
+      }
+      json += char;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+    }
+    json += char;
+
+    if (depth === 0) {
+      return json;
+    }
+  }
+
+  throw new Error('The JSON object in the response is not closed');
+}
+
+// Helper function to parse and validate one response, returning an error message on failure
+function parseResponse<T>(
+  response: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  format: StructuredOptions['format']
+): { data: T } | { error: string } {
+  let value: unknown = response;
+
+  if (format === 'json') {
+    try {
+      value = JSON.parse(extractJson(response));
+    } catch (error) {
+      return { error: `The response is not valid JSON: ${(error as Error).message}` };
+    }
+  }
+
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    return { error: formatValidationError(result.error) };
+  }
+  return { data: result.data };
+}
+
+// Helper function to ask the model for a result matching a schema, feeding
+// validation errors back to it until it complies or the repair budget runs out
+export async function generateStructured<T>(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: StructuredOptions
+): Promise<T> {
+  const logger = options.logger || console;
+  const conversation = [...messages];
+  let lastError = '';
+
+  for (let attempt = 0; attempt <= options.maxRepairs; attempt++) {
+    const response = await provider.complete(conversation);
+    const parsed = parseResponse(response, schema, options.format);
+
+    if ('data' in parsed) {
+      return parsed.data;
+    }
+
+    lastError = parsed.error;
+    logger.error(
+      `${options.label} response from ${provider.name} failed validation (attempt ${attempt + 1}/${options.maxRepairs + 1}):\n${lastError}`
+    );
+
+    conversation.push(
+      { role: 'assistant', content: response },
+      {
+        role: 'user',
+        content: `Your previous response was rejected for the following reasons:
+${lastError}
+
+Reply again with a corrected ${options.format === 'json' ? 'JSON object' : 'response'} only, without any additional text.`,
+      }
+    );
+  }
+
+  throw new Error(
+    `${options.label} from ${provider.name} failed validation after ${options.maxRepairs + 1} attempts:\n${lastError}`
+  );
+}
@@ -0,0 +1,86 @@
+// Structured shape every language summarizer produces
+export interface CodeSummary {
+  imports: string[];
+  // Symbols visible to other modules (exported, public, capitalized...)
+  exports: string[];
+  classes: string[];
+  functions: string[];
+  // Where execution starts: main functions, servers, routes, deployable contracts...
+  entryPoints: string[];
+  // UI components, for languages that have them
+  components?: string[];
+  // `name: first paragraph of its doc comment`
+  docs?: string[];
+}
+
+export interface Summarizer {
+  language: string;
+  extensions: string[];
+  // filePath is relative to the repository root
+  summarize(content: string, filePath: string): CodeSummary;
+}
+
+export function emptySummary(): CodeSummary {
+  return {
+    imports: [],
+    exports: [],
+    classes: [],
+    functions: [],
+    entryPoints: [],
+  };
+}
+
+// Helper function to drop duplicates while keeping the first-seen order
+export function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+// Helper function to blank out // and /* */ comments, keeping strings and line
+// numbers intact. quoteChars lists the string delimiters of the language.
+export function stripCStyleComments(content: string, quoteChars = '"\'`'): string {
+  let result = '';
+  let quote = '';
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+    const next = content[i + 1];
+
+    if (quote) {
+      result += char;
+      if (char === '\\') {
+        result += next ?? '';
+        i += 2;
+        continue;
+      }
+      if (char === quote) {
+        quote = '';
+      }
+      i++;
+    } else if (char === '/' && next === '/') {
+      while (i < content.length && content[i] !== '\n') {
+        i++;
+      }
+    } else if (char === '/' && next === '*') {
+      i += 2;
+      while (i < content.length && !(content[i] === '*' && content[i + 1] === '/')) {
+        result += content[i] === '\n' ? '\n' : '';
+        i++;
+      }
+      i += 2;
+    } else {
+      if (quoteChars.includes(char)) {
+        quote = char;
+      }
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+// Helper function to collect the first capture group of every match
+export function matchAll(content: string, pattern: RegExp, group = 1): string[] {
+  return [...content.matchAll(pattern)].map((match) => match[group]);
+}
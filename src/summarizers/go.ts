@@ -0,0 +1,57 @@
+import {
+  CodeSummary,
+  Summarizer,
+  matchAll,
+  stripCStyleComments,
+  unique,
+} from './common';
+
+// Go exports every identifier starting with an upper-case letter
+function isExported(name: string): boolean {
+  return /^[A-Z]/.test(name);
+}
+
+export const goSummarizer: Summarizer = {
+  language: 'Go',
+  extensions: ['.go'],
+  summarize(content: string): CodeSummary {
+    const code = stripCStyleComments(content, '"`');
+
+    const imports = matchAll(code, /^\s*import\s+(?:[\w.]+\s+)?"([^"]+)"/gm);
+    for (const block of matchAll(code, /^\s*import\s*\(([\s\S]*?)\)/gm)) {
+      imports.push(...matchAll(block, /"([^"]+)"/g));
+    }
+
+    const classes = matchAll(code, /^type\s+(\w+)(?:\[[^\]]*\])?\s+(?:struct|interface)\b/gm);
+
+    const functions: string[] = [];
+    for (const match of code.matchAll(/^func\s+(?:\(\s*\w*\s*\*?(\w+)(?:\[[^\]]*\])?\s*\)\s*)?(\w+)/gm)) {
+      functions.push(match[1] ? `${match[1]}.${match[2]}` : match[2]);
+    }
+
+    const exports = [
+      ...classes.filter(isExported),
+      ...functions.filter((name) => isExported(name.split('.').pop() || '')),
+    ];
+
+    const entryPoints: string[] = [];
+    const packageName = code.match(/^package\s+(\w+)/m)?.[1];
+    if (packageName === 'main' && functions.includes('main')) {
+      entryPoints.push('main');
+    }
+    if (functions.includes('init')) {
+      entryPoints.push('init');
+    }
+    for (const match of code.matchAll(/\.(?:HandleFunc|Handle|GET|POST|PUT|PATCH|DELETE|Get|Post|Put|Patch|Delete)\(\s*"([^"]+)"/g)) {
+      entryPoints.push(`ROUTE ${match[1]}`);
+    }
+
+    return {
+      imports: unique(imports),
+      exports: unique(exports),
+      classes: unique(classes),
+      functions: unique(functions),
+      entryPoints: unique(entryPoints),
+    };
+  },
+};
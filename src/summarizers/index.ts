@@ -0,0 +1,95 @@
+import path from 'path';
+import { Logger } from '../artifacts';
+import { CodeSummary, Summarizer } from './common';
+import { goSummarizer } from './go';
+import { javaSummarizer } from './java';
+import { javascriptSummarizer } from './javascript';
+import { pythonSummarizer } from './python';
+import { rustSummarizer } from './rust';
+import { soliditySummarizer } from './solidity';
+
+export type { CodeSummary, Summarizer } from './common';
+
+// Registry of code summarizers, looked up by file extension
+export const SUMMARIZERS: Summarizer[] = [
+  javascriptSummarizer,
+  pythonSummarizer,
+  javaSummarizer,
+  goSummarizer,
+  rustSummarizer,
+  soliditySummarizer,
+];
+
+const DOCUMENT_EXTENSIONS = ['.md'];
+
+export function getSummarizer(filename: string): Summarizer | undefined {
+  const extension = path.extname(filename).toLowerCase();
+  return SUMMARIZERS.find((summarizer) => summarizer.extensions.includes(extension));
+}
+
+// Helper function to tell whether a file is worth summarizing
+export function isSupportedFile(filename: string): boolean {
+  return (
+    Boolean(getSummarizer(filename)) ||
+    DOCUMENT_EXTENSIONS.includes(path.extname(filename).toLowerCase())
+  );
+}
+
+export function formatCodeSummary(language: string, summary: CodeSummary): string {
+  const lines = [`- **Language:** ${language}`];
+  const fields: [string, string[]][] = [
+    ['Imports', summary.imports],
+    ['Exports', summary.exports],
+    ['Classes', summary.classes],
+    ['Functions', summary.functions],
+    ['Components', summary.components || []],
+    ['Entry points', summary.entryPoints],
+  ];
+  for (const [label, values] of fields) {
+    // Empty fields are left out to keep the prompt small
+    if (values.length > 0) {
+      lines.push(`- **${label}:** ${values.join(', ')}`);
+    }
+  }
+  if (summary.docs && summary.docs.length > 0) {
+    lines.push('- **Docs:**', ...summary.docs.map((doc) => `  - ${doc}`));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+// Helper function to summarize individual files, filePath is relative to the repository root.
+// The imports and entry points are returned separately for tech-stack detection
+// and the dependency graph.
+export function analyzeFile(
+  content: string,
+  filePath: string,
+  logger: Logger = console
+): { summary: string; imports: string[]; entryPoints: string[] } {
+  const summarizer = getSummarizer(filePath);
+
+  if (summarizer) {
+    try {
+      const codeSummary = summarizer.summarize(content, filePath);
+      return {
+        summary: formatCodeSummary(summarizer.language, codeSummary),
+        imports: codeSummary.imports,
+        entryPoints: codeSummary.entryPoints,
+      };
+    } catch (error) {
+      logger.error(`Error parsing file ${filePath}:`, error);
+      return { summary: '', imports: [], entryPoints: [] };
+    }
+  }
+
+  if (filePath.toLowerCase().endsWith('.md')) {
+    // Include the first few lines of Markdown files
+    const lines = content.split('\n').slice(0, 5).join('\n');
+    return { summary: `- **Content Preview:**\n${lines}\n`, imports: [], entryPoints: [] };
+  }
+
+  return { summary: `- **Summary:** Not available for this file type.\n`, imports: [], entryPoints: [] };
+}
+
+export function summarizeFile(content: string, filePath: string): string {
+  return analyzeFile(content, filePath).summary;
+}
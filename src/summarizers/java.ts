@@ -0,0 +1,64 @@
+import {
+  CodeSummary,
+  Summarizer,
+  matchAll,
+  stripCStyleComments,
+  unique,
+} from './common';
+
+const NOT_METHODS = ['if', 'for', 'while', 'switch', 'catch', 'return', 'new', 'throw', 'else', 'synchronized'];
+
+export const javaSummarizer: Summarizer = {
+  language: 'Java',
+  extensions: ['.java'],
+  summarize(content: string): CodeSummary {
+    const code = stripCStyleComments(content, '"');
+
+    const imports = matchAll(code, /^\s*import\s+(?:static\s+)?([\w.*]+)\s*;/gm);
+
+    const classes: string[] = [];
+    const exports: string[] = [];
+    for (const match of code.matchAll(
+      /^\s*((?:(?:public|protected|private|abstract|final|static|sealed)\s+)*)(class|interface|enum|record)\s+(\w+)/gm
+    )) {
+      classes.push(match[3]);
+      if (match[1].includes('public')) {
+        exports.push(match[3]);
+      }
+    }
+
+    const functions: string[] = [];
+    for (const match of code.matchAll(
+      /^\s*((?:(?:public|protected|private|static|final|abstract|synchronized|default)\s+)*)(?:<[^>]+>\s+)?[\w.<>[\],? ]+?\s+(\w+)\s*\([^)]*\)\s*(?:throws\s+[\w., ]+)?\s*[{;]/gm
+    )) {
+      const name = match[2];
+      if (NOT_METHODS.includes(name)) {
+        continue;
+      }
+      functions.push(name);
+      if (match[1].includes('public')) {
+        exports.push(name);
+      }
+    }
+
+    const entryPoints: string[] = [];
+    if (/public\s+static\s+void\s+main\s*\(\s*(?:final\s+)?String/.test(code)) {
+      entryPoints.push(`${classes[0] || 'Main'}.main`);
+    }
+    if (/@SpringBootApplication/.test(code)) {
+      entryPoints.push('Spring Boot application');
+    }
+    for (const match of code.matchAll(/@(Get|Post|Put|Patch|Delete|Request)Mapping\(\s*(?:value\s*=\s*|path\s*=\s*)?"([^"]*)"/g)) {
+      const method = match[1] === 'Request' ? 'ROUTE' : match[1].toUpperCase();
+      entryPoints.push(`${method} ${match[2]}`);
+    }
+
+    return {
+      imports: unique(imports),
+      exports: unique(exports),
+      classes: unique(classes),
+      functions: unique(functions),
+      entryPoints: unique(entryPoints),
+    };
+  },
+};
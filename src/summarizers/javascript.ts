@@ -0,0 +1,323 @@
+import path from 'path';
+import { parse } from '@babel/parser';
+import type * as t from '@babel/types';
+import { CodeSummary, Summarizer, emptySummary, unique } from './common';
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options', 'all'];
+const ROUTER_OBJECTS = /^(app|router|server|api|fastify|routes?|\w+Router)$/;
+
+// Helper function to get the module name of a require('...') call
+function requiredModuleOf(node: t.Node | null | undefined): string | undefined {
+  if (
+    node?.type === 'CallExpression' &&
+    node.callee.type === 'Identifier' &&
+    node.callee.name === 'require' &&
+    node.arguments[0]?.type === 'StringLiteral'
+  ) {
+    return node.arguments[0].value;
+  }
+  return undefined;
+}
+
+// Helper function to get the source text of a node with whitespace collapsed
+function sourceOf(content: string, node: t.Node | null | undefined): string {
+  if (!node || node.start == null || node.end == null) {
+    return '';
+  }
+  return content.slice(node.start, node.end).replace(/\s+/g, ' ').trim();
+}
+
+// Helper function to render `(a: string, b?: number): Promise<void>` for a function node
+function signatureOf(content: string, fn: t.Function): string {
+  const params = fn.params.map((param) => sourceOf(content, param)).join(', ');
+  const returnType =
+    fn.returnType && 'typeAnnotation' in fn.returnType
+      ? `: ${sourceOf(content, fn.returnType.typeAnnotation)}`
+      : '';
+  return `(${params})${returnType}`;
+}
+
+// Helper function to render `async name(a: string): Promise<void>` for a function node
+function describeFunction(content: string, name: string, fn: t.Function): string {
+  return `${fn.async ? 'async ' : ''}${name}${signatureOf(content, fn)}`;
+}
+
+// Helper function to get the first paragraph of the doc comment right above a node
+function docOf(node: t.Node): string {
+  const comments = node.leadingComments || [];
+  const last = comments[comments.length - 1];
+  if (!last) {
+    return '';
+  }
+
+  // Collect the contiguous run of // comments, or the last block comment
+  let text = last.value;
+  if (last.type === 'CommentLine') {
+    const lines: string[] = [];
+    for (let i = comments.length - 1; i >= 0 && comments[i].type === 'CommentLine'; i--) {
+      lines.unshift(comments[i].value);
+    }
+    text = lines.join('\n');
+  }
+
+  const paragraph = text
+    .split('\n')
+    .map((line) => line.replace(/^\s*\*?\s?/, '').trim())
+    .filter((line) => !line.startsWith('@') && !line.startsWith('eslint') && !line.startsWith('prettier'))
+    .join('\n')
+    .trim()
+    .split(/\n\s*\n/)[0]
+    .replace(/\s+/g, ' ');
+
+  return paragraph.length > 200 ? `${paragraph.slice(0, 197)}...` : paragraph;
+}
+
+// Helper function to check whether a subtree renders JSX
+function containsJsx(node: unknown): boolean {
+  if (!node || typeof node !== 'object') {
+    return false;
+  }
+  if (Array.isArray(node)) {
+    return node.some(containsJsx);
+  }
+  const { type } = node as { type?: string };
+  if (type === 'JSXElement' || type === 'JSXFragment') {
+    return true;
+  }
+  return Object.entries(node).some(
+    ([key, value]) =>
+      !['leadingComments', 'trailingComments', 'innerComments', 'loc'].includes(key) &&
+      typeof value === 'object' &&
+      containsJsx(value)
+  );
+}
+
+// Helper function to unwrap memo(...), forwardRef(...), observer(...) and similar wrappers
+function unwrapFunction(node: t.Node | null | undefined): t.Function | undefined {
+  if (!node) {
+    return undefined;
+  }
+  if (
+    node.type === 'ArrowFunctionExpression' ||
+    node.type === 'FunctionExpression' ||
+    node.type === 'FunctionDeclaration'
+  ) {
+    return node;
+  }
+  if (node.type === 'CallExpression' && node.arguments.length > 0) {
+    return unwrapFunction(node.arguments[node.arguments.length - 1] as t.Node);
+  }
+  if (node.type === 'TSAsExpression' || node.type === 'TSSatisfiesExpression') {
+    return unwrapFunction(node.expression);
+  }
+  return undefined;
+}
+
+// Helper function to list the members of a class as `name(args): Type` / `name: Type`
+function classMembersOf(content: string, node: t.ClassDeclaration | t.ClassExpression): string[] {
+  const members: string[] = [];
+  for (const member of node.body.body) {
+    if (
+      (member.type === 'ClassMethod' || member.type === 'ClassPrivateMethod') &&
+      member.accessibility !== 'private'
+    ) {
+      const name = member.kind === 'constructor' ? 'constructor' : sourceOf(content, member.key);
+      members.push(`${member.static ? 'static ' : ''}${describeFunction(content, name, member)}`);
+    } else if (member.type === 'ClassProperty' && member.accessibility !== 'private') {
+      const name = sourceOf(content, member.key);
+      const type =
+        member.typeAnnotation && 'typeAnnotation' in member.typeAnnotation
+          ? `: ${sourceOf(content, member.typeAnnotation.typeAnnotation)}`
+          : '';
+      members.push(`${member.static ? 'static ' : ''}${name}${type}`);
+    }
+  }
+  return members;
+}
+
+// Helper function to describe a route registration like app.get('/users', handler)
+function routeOf(content: string, expression: t.Expression): string | undefined {
+  if (expression.type !== 'CallExpression' || expression.callee.type !== 'MemberExpression') {
+    return undefined;
+  }
+  const { object, property } = expression.callee;
+  const firstArgument = expression.arguments[0];
+  if (
+    object.type === 'Identifier' &&
+    ROUTER_OBJECTS.test(object.name) &&
+    property.type === 'Identifier' &&
+    HTTP_METHODS.includes(property.name) &&
+    firstArgument?.type === 'StringLiteral'
+  ) {
+    return `${property.name.toUpperCase()} ${firstArgument.value}`;
+  }
+  return undefined;
+}
+
+export const javascriptSummarizer: Summarizer = {
+  language: 'JavaScript/TypeScript',
+  extensions: ['.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.mts', '.cts'],
+  summarize(content: string, filePath: string): CodeSummary {
+    const ast = parse(content, {
+      sourceType: 'unambiguous',
+      plugins: ['typescript', 'jsx', 'decorators-legacy'],
+      errorRecovery: true,
+    });
+
+    const summary = emptySummary();
+    const components: string[] = [];
+    const docs: string[] = [];
+    const normalizedPath = filePath.split(path.sep).join('/');
+    const isNextRouteHandler = /(^|\/)app\/(.+\/)?route\.[jt]s$/.test(normalizedPath);
+    const isNextApiRoute = /(^|\/)pages\/api\//.test(normalizedPath);
+
+    // Records a function or component declared at the top level
+    const addFunction = (name: string, fn: t.Function, docNode: t.Node) => {
+      if (/^[A-Z]/.test(name) && containsJsx(fn.body)) {
+        components.push(`<${name}${fn.params[0] ? ` ${sourceOf(content, fn.params[0])}` : ''}>`);
+      } else {
+        summary.functions.push(describeFunction(content, name, fn));
+      }
+      const doc = docOf(docNode);
+      if (doc) {
+        docs.push(`${name}: ${doc}`);
+      }
+    };
+
+    // Records a declaration and returns the names it introduces
+    const addDeclaration = (declaration: t.Node, docNode: t.Node): string[] => {
+      switch (declaration.type) {
+        case 'FunctionDeclaration':
+          if (declaration.id) {
+            addFunction(declaration.id.name, declaration, docNode);
+            return [declaration.id.name];
+          }
+          return [];
+        case 'ClassDeclaration': {
+          if (!declaration.id) {
+            return [];
+          }
+          const name = declaration.id.name;
+          const superClass = declaration.superClass ? ` extends ${sourceOf(content, declaration.superClass)}` : '';
+          const members = classMembersOf(content, declaration);
+          if (/^(React\.)?(Pure)?Component$/.test(sourceOf(content, declaration.superClass))) {
+            components.push(`<${name}>`);
+          }
+          summary.classes.push(`${name}${superClass}${members.length > 0 ? ` { ${members.join('; ')} }` : ''}`);
+          const doc = docOf(docNode);
+          if (doc) {
+            docs.push(`${name}: ${doc}`);
+          }
+          return [name];
+        }
+        case 'VariableDeclaration': {
+          const names: string[] = [];
+          for (const declarator of declaration.declarations) {
+            // const x = require('y'), whatever the pattern on the left
+            const required = requiredModuleOf(declarator.init);
+            if (required) {
+              summary.imports.push(required);
+            }
+            if (declarator.id.type !== 'Identifier') {
+              continue;
+            }
+            names.push(declarator.id.name);
+            if (required) {
+              continue;
+            }
+            const fn = unwrapFunction(declarator.init);
+            if (fn) {
+              addFunction(declarator.id.name, fn, docNode);
+            }
+          }
+          return names;
+        }
+        case 'TSInterfaceDeclaration':
+        case 'TSTypeAliasDeclaration':
+        case 'TSEnumDeclaration':
+          return [declaration.id.name];
+        default:
+          return [];
+      }
+    };
+
+    for (const node of ast.program.body) {
+      switch (node.type) {
+        case 'ImportDeclaration':
+          summary.imports.push(node.source.value);
+          break;
+        case 'ExportNamedDeclaration':
+          if (node.declaration) {
+            summary.exports.push(...addDeclaration(node.declaration, node));
+          }
+          for (const specifier of node.specifiers) {
+            const exported = specifier.exported.type === 'Identifier' ? specifier.exported.name : specifier.exported.value;
+            summary.exports.push(node.source ? `${exported} (from ${node.source.value})` : exported);
+          }
+          break;
+        case 'ExportDefaultDeclaration': {
+          const { declaration } = node;
+          if (
+            (declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') &&
+            declaration.id
+          ) {
+            summary.exports.push(`default (${addDeclaration(declaration, node).join(', ')})`);
+          } else if (declaration.type === 'Identifier') {
+            summary.exports.push(`default (${declaration.name})`);
+          } else {
+            const fn = unwrapFunction(declaration);
+            if (fn) {
+              addFunction('default', fn, node);
+            }
+            summary.exports.push('default');
+          }
+          if (isNextApiRoute) {
+            summary.entryPoints.push(`API route /${normalizedPath.replace(/^.*pages\//, '').replace(/\.[jt]sx?$/, '').replace(/\/index$/, '')}`);
+          }
+          break;
+        }
+        case 'ExportAllDeclaration':
+          summary.exports.push(`* (from ${node.source.value})`);
+          break;
+        case 'ExpressionStatement': {
+          const route = routeOf(content, node.expression);
+          if (route) {
+            summary.entryPoints.push(route);
+          }
+          const callee = node.expression.type === 'CallExpression' ? sourceOf(content, node.expression.callee) : '';
+          if (/\.listen$/.test(callee)) {
+            summary.entryPoints.push(`${callee}()`);
+          } else if (/(createRoot\(.*\)\.render|ReactDOM\.render|hydrateRoot)$/.test(callee)) {
+            summary.entryPoints.push('React root render');
+          }
+          break;
+        }
+        default:
+          addDeclaration(node, node);
+      }
+    }
+
+    if (isNextRouteHandler) {
+      for (const method of summary.exports) {
+        if (HTTP_METHODS.includes(method.toLowerCase())) {
+          summary.entryPoints.push(`${method} ${normalizedPath.replace(/^.*app\//, '/').replace(/\/?route\.[jt]s$/, '') || '/'}`);
+        }
+      }
+    }
+    if (content.startsWith('#!')) {
+      summary.entryPoints.push('CLI script (shebang)');
+    }
+    if (/require\.main\s*===\s*module/.test(content)) {
+      summary.entryPoints.push('require.main === module');
+    }
+
+    return {
+      ...summary,
+      imports: unique(summary.imports),
+      exports: unique(summary.exports),
+      entryPoints: unique(summary.entryPoints),
+      components,
+      docs,
+    };
+  },
+};
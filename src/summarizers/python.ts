@@ -0,0 +1,56 @@
+import path from 'path';
+import { CodeSummary, Summarizer, matchAll, unique } from './common';
+
+// Helper function to blank out docstrings and # comments so they don't match as code
+function stripPythonComments(content: string): string {
+  return content
+    .replace(/("""|''')[\s\S]*?\1/g, (block) => block.replace(/[^\n]/g, ''))
+    .replace(/^(\s*)#.*$/gm, '$1');
+}
+
+export const pythonSummarizer: Summarizer = {
+  language: 'Python',
+  extensions: ['.py'],
+  summarize(content: string, filePath: string): CodeSummary {
+    const code = stripPythonComments(content);
+
+    const imports: string[] = [];
+    for (const match of code.matchAll(/^\s*import\s+([\w.,\s]+?)\s*$/gm)) {
+      imports.push(...match[1].split(',').map((name) => name.trim().split(/\s+as\s+/)[0]));
+    }
+    imports.push(...matchAll(code, /^\s*from\s+([\w.]+)\s+import\s+/gm));
+
+    // Only top-level definitions, methods are part of their class
+    const classes = matchAll(code, /^class\s+(\w+)/gm);
+    const functions = matchAll(code, /^(?:async\s+)?def\s+(\w+)/gm);
+
+    // __all__ is authoritative when present, otherwise everything not prefixed with _
+    const allMatch = code.match(/^__all__\s*=\s*[[(]([\s\S]*?)[\])]/m);
+    const exports = allMatch
+      ? matchAll(allMatch[1], /['"](\w+)['"]/g)
+      : [...classes, ...functions].filter((name) => !name.startsWith('_'));
+
+    const entryPoints: string[] = [];
+    if (/^if\s+__name__\s*==\s*['"]__main__['"]\s*:/m.test(code)) {
+      entryPoints.push('if __name__ == "__main__"');
+    }
+    if (path.basename(filePath) === '__main__.py') {
+      entryPoints.push('python -m package entry (__main__.py)');
+    }
+    for (const match of code.matchAll(/^(\w+)\s*=\s*(FastAPI|Flask|Starlette|Quart)\(/gm)) {
+      entryPoints.push(`${match[1]} (${match[2]} app)`);
+    }
+    for (const match of code.matchAll(/^@(\w+)\.(get|post|put|patch|delete|route)\(\s*['"]([^'"]+)['"]/gm)) {
+      const method = match[2] === 'route' ? 'ROUTE' : match[2].toUpperCase();
+      entryPoints.push(`${method} ${match[3]}`);
+    }
+
+    return {
+      imports: unique(imports),
+      exports: unique(exports),
+      classes,
+      functions,
+      entryPoints: unique(entryPoints),
+    };
+  },
+};
@@ -0,0 +1,55 @@
+import path from 'path';
+import {
+  CodeSummary,
+  Summarizer,
+  matchAll,
+  stripCStyleComments,
+  unique,
+} from './common';
+
+export const rustSummarizer: Summarizer = {
+  language: 'Rust',
+  extensions: ['.rs'],
+  summarize(content: string, filePath: string): CodeSummary {
+    // Only " delimits strings, ' is also used for lifetimes
+    const code = stripCStyleComments(content, '"');
+
+    const imports = [
+      ...matchAll(code, /^\s*(?:pub(?:\([\w:]+\))?\s+)?use\s+([\w:]+?)(?:::\{|::\*|\s+as\s+|;)/gm),
+      ...matchAll(code, /^\s*extern\s+crate\s+(\w+)/gm),
+    ];
+
+    const classes = matchAll(code, /^\s*(?:pub(?:\([\w:]+\))?\s+)?(?:struct|enum|trait|union)\s+(\w+)/gm);
+    const functions = matchAll(code, /^\s*(?:pub(?:\([\w:]+\))?\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+"\w+"\s+)?fn\s+(\w+)/gm);
+    const exports = matchAll(
+      code,
+      /^\s*pub\s+(?:const\s+|async\s+|unsafe\s+)*(?:fn|struct|enum|trait|mod|type|const|static|union)\s+(\w+)/gm
+    );
+
+    const entryPoints: string[] = [];
+    if (/^\s*(?:async\s+)?fn\s+main\s*\(/m.test(code)) {
+      const runtime = code.match(/#\[(tokio|async_std|actix_web)::main\]/)?.[1];
+      entryPoints.push(runtime ? `main (${runtime})` : 'main');
+    }
+    if (path.basename(filePath) === 'lib.rs') {
+      entryPoints.push('library crate root');
+    }
+    for (const match of code.matchAll(/#\[program\]\s*(?:pub\s+)?mod\s+(\w+)/g)) {
+      entryPoints.push(`Anchor program ${match[1]}`);
+    }
+    if (/#\[ink::contract\]/.test(code)) {
+      entryPoints.push('ink! contract');
+    }
+    for (const name of matchAll(code, /#\[wasm_bindgen[^\]]*\]\s*pub\s+(?:async\s+)?fn\s+(\w+)/g)) {
+      entryPoints.push(`wasm export ${name}`);
+    }
+
+    return {
+      imports: unique(imports),
+      exports: unique(exports),
+      classes: unique(classes),
+      functions: unique(functions),
+      entryPoints: unique(entryPoints),
+    };
+  },
+};
@@ -0,0 +1,50 @@
+import {
+  CodeSummary,
+  Summarizer,
+  matchAll,
+  stripCStyleComments,
+  unique,
+} from './common';
+
+export const soliditySummarizer: Summarizer = {
+  language: 'Solidity',
+  extensions: ['.sol'],
+  summarize(content: string): CodeSummary {
+    const code = stripCStyleComments(content, '"\'');
+
+    const imports = matchAll(code, /^\s*import\s+(?:[^'"]*?\s+from\s+)?['"]([^'"]+)['"]/gm);
+
+    const classes: string[] = [];
+    const entryPoints: string[] = [];
+    for (const match of code.matchAll(/^\s*(abstract\s+)?(contract|interface|library)\s+(\w+)/gm)) {
+      classes.push(match[3]);
+      // Only concrete contracts can be deployed
+      if (!match[1] && match[2] === 'contract') {
+        entryPoints.push(`contract ${match[3]}`);
+      }
+    }
+
+    const functions: string[] = [];
+    const exports = [...classes];
+    for (const match of code.matchAll(/\bfunction\s+(\w+)\s*\(([^)]*)\)([^{;]*)/g)) {
+      functions.push(match[1]);
+      if (/\b(public|external)\b/.test(match[3])) {
+        exports.push(match[1]);
+      }
+    }
+    if (/\breceive\s*\(\s*\)\s*external\s+payable/.test(code)) {
+      exports.push('receive');
+    }
+    if (/\bfallback\s*\(/.test(code)) {
+      exports.push('fallback');
+    }
+
+    return {
+      imports: unique(imports),
+      exports: unique(exports),
+      classes: unique(classes),
+      functions: unique(functions),
+      entryPoints: unique(entryPoints),
+    };
+  },
+};
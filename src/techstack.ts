@@ -0,0 +1,354 @@
+import fs from 'fs';
+import path from 'path';
+import ignore from 'ignore';
+import { Logger } from './artifacts';
+import { FileSummary } from './condense';
+import { WalkerOptions, walkRepository } from './walker';
+
+// Categories of the technology dropdowns on submission forms
+export const TECH_CATEGORIES = [
+  'languages',
+  'webFrameworks',
+  'blockchain',
+  'databases',
+  'devTools',
+  'design',
+] as const;
+
+export type TechCategory = (typeof TECH_CATEGORIES)[number];
+
+export interface DetectedTech {
+  name: string;
+  // Where it was seen, e.g. "package.json: wagmi" or "14 .ts files"
+  evidence: string[];
+}
+
+export type TechStack = Record<TechCategory, DetectedTech[]>;
+
+interface TechRule {
+  name: string;
+  category: TechCategory;
+  // Package or module names; a trailing * matches by prefix
+  packages?: string[];
+  // gitignore-style globs of files whose presence is enough
+  files?: string[];
+}
+
+const TECH_RULES: TechRule[] = [
+  // Web frameworks
+  { name: 'React', category: 'webFrameworks', packages: ['react'] },
+  { name: 'Next.js', category: 'webFrameworks', packages: ['next'], files: ['next.config.*'] },
+  { name: 'React Native', category: 'webFrameworks', packages: ['react-native', 'expo'] },
+  { name: 'Vue', category: 'webFrameworks', packages: ['vue'] },
+  { name: 'Nuxt', category: 'webFrameworks', packages: ['nuxt'], files: ['nuxt.config.*'] },
+  { name: 'Svelte', category: 'webFrameworks', packages: ['svelte', '@sveltejs/kit'], files: ['svelte.config.*'] },
+  { name: 'Angular', category: 'webFrameworks', packages: ['@angular/core'], files: ['angular.json'] },
+  { name: 'Remix', category: 'webFrameworks', packages: ['@remix-run/*'] },
+  { name: 'Astro', category: 'webFrameworks', packages: ['astro'] },
+  { name: 'Express', category: 'webFrameworks', packages: ['express'] },
+  { name: 'NestJS', category: 'webFrameworks', packages: ['@nestjs/core'] },
+  { name: 'Fastify', category: 'webFrameworks', packages: ['fastify'] },
+  { name: 'Hono', category: 'webFrameworks', packages: ['hono'] },
+  { name: 'Django', category: 'webFrameworks', packages: ['django'] },
+  { name: 'Flask', category: 'webFrameworks', packages: ['flask'] },
+  { name: 'FastAPI', category: 'webFrameworks', packages: ['fastapi'] },
+  { name: 'Spring', category: 'webFrameworks', packages: ['org.springframework*'] },
+  { name: 'Gin', category: 'webFrameworks', packages: ['github.com/gin-gonic/gin'] },
+  { name: 'Actix', category: 'webFrameworks', packages: ['actix-web'] },
+  { name: 'Axum', category: 'webFrameworks', packages: ['axum'] },
+
+  // Blockchain
+  { name: 'Ethereum', category: 'blockchain', packages: ['ethers', 'viem', 'web3', 'wagmi', '@openzeppelin/*'], files: ['*.sol'] },
+  { name: 'Solana', category: 'blockchain', packages: ['@solana/*', '@coral-xyz/anchor', 'solana-program', 'anchor-lang'], files: ['Anchor.toml'] },
+  { name: 'Sui', category: 'blockchain', packages: ['@mysten/*'] },
+  { name: 'Aptos', category: 'blockchain', packages: ['aptos', '@aptos-labs/*'] },
+  { name: 'Starknet', category: 'blockchain', packages: ['starknet', 'get-starknet'] },
+  { name: 'NEAR', category: 'blockchain', packages: ['near-api-js'] },
+  { name: 'Flow', category: 'blockchain', packages: ['@onflow/*'] },
+  { name: 'Cosmos', category: 'blockchain', packages: ['@cosmjs/*'] },
+  { name: 'Bitcoin', category: 'blockchain', packages: ['bitcoinjs-lib'] },
+  { name: 'Chainlink', category: 'blockchain', packages: ['@chainlink/*'] },
+  { name: 'The Graph', category: 'blockchain', packages: ['@graphprotocol/*'], files: ['subgraph.yaml'] },
+  { name: 'IPFS', category: 'blockchain', packages: ['ipfs-http-client', 'kubo-rpc-client', '@web3-storage/*', 'pinata*'] },
+  { name: 'WalletConnect', category: 'blockchain', packages: ['@walletconnect/*', '@reown/*'] },
+  { name: 'RainbowKit', category: 'blockchain', packages: ['@rainbow-me/rainbowkit'] },
+
+  // Databases
+  { name: 'PostgreSQL', category: 'databases', packages: ['pg', 'postgres', 'psycopg2', 'psycopg2-binary', 'asyncpg', 'github.com/lib/pq', 'github.com/jackc/pgx*'] },
+  { name: 'MySQL', category: 'databases', packages: ['mysql', 'mysql2', 'pymysql'] },
+  { name: 'MongoDB', category: 'databases', packages: ['mongodb', 'mongoose', 'pymongo', 'motor'] },
+  { name: 'Redis', category: 'databases', packages: ['redis', 'ioredis'] },
+  { name: 'SQLite', category: 'databases', packages: ['sqlite3', 'better-sqlite3'] },
+  { name: 'Prisma', category: 'databases', packages: ['prisma', '@prisma/client'], files: ['*.prisma'] },
+  { name: 'Drizzle', category: 'databases', packages: ['drizzle-orm'] },
+  { name: 'SQLAlchemy', category: 'databases', packages: ['sqlalchemy'] },
+  { name: 'Supabase', category: 'databases', packages: ['@supabase/*', 'supabase'] },
+  { name: 'Firebase', category: 'databases', packages: ['firebase', 'firebase-admin'] },
+  { name: 'DynamoDB', category: 'databases', packages: ['@aws-sdk/client-dynamodb'] },
+  { name: 'Convex', category: 'databases', packages: ['convex'] },
+
+  // Developer tools
+  { name: 'Hardhat', category: 'devTools', packages: ['hardhat'], files: ['hardhat.config.*'] },
+  { name: 'Foundry', category: 'devTools', packages: ['forge-std*'], files: ['foundry.toml'] },
+  { name: 'Truffle', category: 'devTools', packages: ['truffle'], files: ['truffle-config.js'] },
+  { name: 'Vite', category: 'devTools', packages: ['vite'], files: ['vite.config.*'] },
+  { name: 'Webpack', category: 'devTools', packages: ['webpack'] },
+  { name: 'Turborepo', category: 'devTools', packages: ['turbo'] },
+  { name: 'Jest', category: 'devTools', packages: ['jest'] },
+  { name: 'Vitest', category: 'devTools', packages: ['vitest'] },
+  { name: 'Docker', category: 'devTools', files: ['Dockerfile', 'docker-compose.*', 'compose.y*ml'] },
+  { name: 'GitHub Actions', category: 'devTools', files: ['.github/workflows/*'] },
+  { name: 'Vercel', category: 'devTools', packages: ['vercel', '@vercel/*'], files: ['vercel.json'] },
+  { name: 'Netlify', category: 'devTools', files: ['netlify.toml'] },
+
+  // Design
+  { name: 'Tailwind CSS', category: 'design', packages: ['tailwindcss'], files: ['tailwind.config.*'] },
+  { name: 'shadcn/ui', category: 'design', files: ['components.json'] },
+  { name: 'Radix UI', category: 'design', packages: ['@radix-ui/*'] },
+  { name: 'Material UI', category: 'design', packages: ['@mui/material'] },
+  { name: 'Chakra UI', category: 'design', packages: ['@chakra-ui/react'] },
+  { name: 'styled-components', category: 'design', packages: ['styled-components'] },
+  { name: 'Framer Motion', category: 'design', packages: ['framer-motion', 'motion'] },
+  { name: 'Bootstrap', category: 'design', packages: ['bootstrap', 'react-bootstrap'] },
+  { name: 'Sass', category: 'design', packages: ['sass'] },
+  { name: 'Three.js', category: 'design', packages: ['three'] },
+];
+
+// Networks named in chain config files (hardhat.config, foundry.toml...)
+const CHAIN_PATTERNS: { name: string; pattern: RegExp }[] = [
+  { name: 'Polygon', pattern: /\b(polygon|matic|amoy|mumbai)/i },
+  { name: 'Base', pattern: /\bbase[-_]?(sepolia|goerli|mainnet)\b|\bbase\s*[:=]/i },
+  { name: 'Arbitrum', pattern: /\barbitrum/i },
+  { name: 'Optimism', pattern: /\boptimism|\bop[-_]?sepolia/i },
+  { name: 'Scroll', pattern: /\bscroll[-_]?(sepolia|mainnet)?\s*[:=]/i },
+  { name: 'Linea', pattern: /\blinea/i },
+  { name: 'zkSync', pattern: /\bzksync/i },
+  { name: 'Celo', pattern: /\bcelo/i },
+  { name: 'Gnosis', pattern: /\bgnosis/i },
+  { name: 'Avalanche', pattern: /\b(avalanche|fuji)/i },
+  { name: 'BNB Chain', pattern: /\b(bsc|bnb)/i },
+  { name: 'Mantle', pattern: /\bmantle/i },
+];
+
+const CHAIN_CONFIG_FILES = ['hardhat.config.*', 'foundry.toml', 'truffle-config.js', 'wagmi.config.*'];
+const chainConfigFiles = ignore().add(CHAIN_CONFIG_FILES);
+
+// Manifests and config files read for detection, on top of the walked source files
+const MANIFEST_FILES = [
+  'package.json',
+  'requirements*.txt',
+  'pyproject.toml',
+  'Pipfile',
+  'Cargo.toml',
+  'go.mod',
+  ...CHAIN_CONFIG_FILES,
+  ...TECH_RULES.flatMap((rule) => rule.files || []).filter((glob) => !glob.startsWith('*.')),
+];
+
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  '.ts': 'TypeScript',
+  '.tsx': 'TypeScript',
+  '.js': 'JavaScript',
+  '.jsx': 'JavaScript',
+  '.mjs': 'JavaScript',
+  '.cjs': 'JavaScript',
+  '.py': 'Python',
+  '.sol': 'Solidity',
+  '.rs': 'Rust',
+  '.go': 'Go',
+  '.java': 'Java',
+};
+
+// Helper function to list the section keys and quoted array entries of the
+// dependency sections of a TOML file, e.g. Cargo.toml or pyproject.toml
+function parseTomlDependencies(content: string): string[] {
+  const names: string[] = [];
+  let inDependencies = false;
+  let inArray = false;
+  for (const line of content.split('\n')) {
+    const section = line.match(/^\s*\[+([^\]]+)\]+/);
+    if (section) {
+      inDependencies = /(^|\.|-)(dependencies|packages)$/.test(section[1].trim());
+      inArray = false;
+      continue;
+    }
+    if (/^\s*(dependencies|requires)\s*=\s*\[/.test(line)) {
+      inArray = true;
+    }
+    if (inArray) {
+      for (const match of line.matchAll(/["']([A-Za-z0-9_.-]+)/g)) {
+        names.push(match[1]);
+      }
+      if (line.includes(']')) {
+        inArray = false;
+      }
+    } else if (inDependencies) {
+      const key = line.match(/^\s*([A-Za-z0-9_.-]+)\s*=/);
+      if (key) {
+        names.push(key[1]);
+      }
+    }
+  }
+  return names;
+}
+
+// Helper function to list the dependency names declared in a manifest
+export function parseManifest(filename: string, content: string, logger: Logger = console): string[] {
+  try {
+    if (filename === 'package.json') {
+      const manifest = JSON.parse(content);
+      return ['dependencies', 'devDependencies', 'peerDependencies'].flatMap((key) =>
+        Object.keys(manifest[key] || {})
+      );
+    }
+    if (/^requirements.*\.txt$/.test(filename)) {
+      return content
+        .split('\n')
+        .map((line) => line.replace(/#.*/, '').trim())
+        .filter((line) => line && !line.startsWith('-'))
+        .map((line) => line.split(/[\s<>=~!;[]/)[0]);
+    }
+    if (filename === 'go.mod') {
+      return [...content.matchAll(/^\s*(?:require\s+)?([\w.-]+\.[\w.-]+\/\S+)\s+v/gm)].map((match) => match[1]);
+    }
+    if (filename.endsWith('.toml') || filename === 'Pipfile') {
+      return parseTomlDependencies(content);
+    }
+  } catch (error) {
+    logger.error(`Error parsing manifest ${filename}:`, error);
+  }
+  return [];
+}
+
+// Helper function to reduce an import to its package name: "@scope/pkg/sub" -> "@scope/pkg",
+// "lodash/fp" -> "lodash", "django.db" -> "django"; relative imports are dropped
+function importPackage(specifier: string): string | undefined {
+  if (/^[./]/.test(specifier) || specifier.startsWith('node:')) {
+    return undefined;
+  }
+  if (specifier.startsWith('@')) {
+    return specifier.split('/').slice(0, 2).join('/');
+  }
+  return specifier.split(/[/:]/)[0].split('.')[0] || undefined;
+}
+
+function matchesPackage(pattern: string, name: string): boolean {
+  const lower = name.toLowerCase();
+  return pattern.endsWith('*')
+    ? lower.startsWith(pattern.slice(0, -1).toLowerCase())
+    : lower === pattern.toLowerCase();
+}
+
+// Helper function to list manifest and config files, relative to dir. They are
+// found with the walker so .gitignore and vendored directories apply.
+export function findManifests(dir: string, walker: WalkerOptions, logger: Logger = console): string[] {
+  return walkRepository(
+    dir,
+    {
+      ...walker,
+      include: MANIFEST_FILES,
+      extensions: ['', '.json', '.txt', '.toml', '.mod', '.js', '.cjs', '.mjs', '.ts', '.yml', '.yaml'],
+    },
+    undefined,
+    logger
+  ).files.map((file) => file.path);
+}
+
+// Helper function to build the tech stack from manifests, config files, imports
+// and file extensions. files are the walked source files and manifests the
+// files found by findManifests, both relative to dir.
+export function detectTechStack(
+  dir: string,
+  files: FileSummary[],
+  manifests: string[],
+  logger: Logger = console
+): TechStack {
+  const stack: TechStack = { languages: [], webFrameworks: [], blockchain: [], databases: [], devTools: [], design: [] };
+  const add = (category: TechCategory, name: string, evidence: string) => {
+    let entry = stack[category].find((tech) => tech.name === name);
+    if (!entry) {
+      entry = { name, evidence: [] };
+      stack[category].push(entry);
+    }
+    if (!entry.evidence.includes(evidence) && entry.evidence.length < 5) {
+      entry.evidence.push(evidence);
+    }
+  };
+
+  // Package name -> where it was declared or imported
+  const packages = new Map<string, string>();
+  for (const manifest of manifests) {
+    const content = fs.readFileSync(path.join(dir, manifest), 'utf8');
+    for (const name of parseManifest(path.basename(manifest), content, logger)) {
+      packages.set(name, `${manifest}: ${name}`);
+    }
+    if (chainConfigFiles.ignores(manifest)) {
+      for (const chain of CHAIN_PATTERNS) {
+        if (chain.pattern.test(content)) {
+          add('blockchain', chain.name, manifest);
+        }
+      }
+    }
+  }
+  for (const file of files) {
+    for (const specifier of file.imports || []) {
+      const name = importPackage(specifier);
+      if (name && !packages.has(name)) {
+        packages.set(name, `${file.path}: import ${specifier}`);
+      }
+      if (!packages.has(specifier) && !/^[./]/.test(specifier)) {
+        packages.set(specifier, `${file.path}: import ${specifier}`);
+      }
+    }
+  }
+
+  const allFiles = [...manifests, ...files.map((file) => file.path)];
+  for (const rule of TECH_RULES) {
+    for (const pattern of rule.packages || []) {
+      for (const [name, evidence] of packages) {
+        if (matchesPackage(pattern, name)) {
+          add(rule.category, rule.name, evidence);
+        }
+      }
+    }
+    if (rule.files) {
+      const globs = ignore().add(rule.files);
+      const match = allFiles.find((file) => globs.ignores(file));
+      if (match) {
+        add(rule.category, rule.name, match);
+      }
+    }
+  }
+
+  // Languages by how much code is written in them
+  const languageCounts = new Map<string, number>();
+  for (const file of files) {
+    const language = LANGUAGE_EXTENSIONS[path.extname(file.path).toLowerCase()];
+    if (language) {
+      languageCounts.set(language, (languageCounts.get(language) || 0) + 1);
+    }
+  }
+  for (const [language, count] of [...languageCounts].sort((a, b) => b[1] - a[1])) {
+    add('languages', language, `${count} file${count === 1 ? '' : 's'}`);
+  }
+
+  return stack;
+}
+
+// Helper function to render the tech stack for the run log
+export function formatTechStack(stack: TechStack): string {
+  return TECH_CATEGORIES.map((category) => {
+    const names = stack[category].map((tech) => tech.name);
+    return `- ${category}: ${names.length > 0 ? names.join(', ') : '(none detected)'}`;
+  }).join('\n');
+}
+
+// Helper function to expose the tech stack as form artifacts: techLanguages, techWebFrameworks...
+export function techStackArtifacts(stack: TechStack): Record<string, string[]> {
+  return Object.fromEntries(
+    TECH_CATEGORIES.map((category) => [
+      `tech${category[0].toUpperCase()}${category.slice(1)}`,
+      stack[category].map((tech) => tech.name),
+    ])
+  );
+}
@@ -0,0 +1,4 @@
+// aloria ships without type declarations; only what the pipeline calls is declared
+declare module 'aloria' {
+  export function configureAloria(options: { apiKey?: string }): void;
+}
@@ -0,0 +1,281 @@
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Logger } from './artifacts';
+import { NarrationConfig, NarrationProvider, probeDuration } from './narration';
+
+export interface VideoOptions {
+  // The platform's accepted length window
+  minSeconds: number;
+  maxSeconds: number;
+  width: number;
+  height: number;
+  fps: number;
+  // Speaking rate used to time silent narration
+  wordsPerMinute: number;
+  // Roughly how many words are narrated over one image
+  sceneWords: number;
+  ffmpegPath: string;
+  ffprobePath: string;
+  narration: NarrationConfig;
+}
+
+export interface Scene {
+  text: string;
+  image: string;
+  // Seconds from the start of the video
+  start: number;
+  duration: number;
+  // Length of the narration once any speed-up is applied
+  narrationSeconds: number;
+}
+
+export interface RenderedVideo {
+  videoPath: string;
+  captionsPath: string;
+  scenes: Scene[];
+  durationSeconds: number;
+}
+
+// Pause after each scene's narration before the next image
+const SCENE_GAP_SECONDS = 0.75;
+// Fastest the narration may be played to fit the maximum length
+const MAX_TEMPO = 1.25;
+const CAPTION_WORDS = 12;
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// Helper function to group the script's sentences into scenes of about sceneWords words
+export function splitIntoScenes(script: string, sceneWords: number): string[] {
+  const sentences = script
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+
+  const scenes: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    if (current && countWords(current) + countWords(sentence) > sceneWords) {
+      scenes.push(current);
+      current = sentence;
+    } else {
+      current = current ? `${current} ${sentence}` : sentence;
+    }
+  }
+  if (current) {
+    scenes.push(current);
+  }
+  return scenes;
+}
+
+// Helper function to pick an image per scene: the cover opens and closes the
+// video, screenshots are shown in order in between
+export function assignImages(sceneCount: number, cover: string | undefined, screenshots: string[]): string[] {
+  const opening = cover || screenshots[0];
+  if (!opening) {
+    throw new Error('The video needs a cover image or at least one screenshot');
+  }
+  return Array.from({ length: sceneCount }, (_, i) => {
+    if (i === 0 || (i === sceneCount - 1 && sceneCount > 2) || screenshots.length === 0) {
+      return opening;
+    }
+    return screenshots[(i - 1) % screenshots.length];
+  });
+}
+
+// Helper function to fit the scenes into the length window: short videos hold
+// each image longer, long ones play the narration slightly faster
+export function timeScenes(
+  narrationSeconds: number[],
+  options: Pick<VideoOptions, 'minSeconds' | 'maxSeconds'>
+): { durations: number[]; tempo: number } {
+  const gaps = narrationSeconds.length * SCENE_GAP_SECONDS;
+  const spoken = narrationSeconds.reduce((sum, seconds) => sum + seconds, 0);
+
+  if (spoken + gaps > options.maxSeconds) {
+    const tempo = spoken / (options.maxSeconds - gaps);
+    if (tempo > MAX_TEMPO) {
+      throw new Error(
+        `The narration runs ${Math.round(spoken)}s, too long for the ${options.maxSeconds}s limit even at ${MAX_TEMPO}x speed. Shorten the video script.`
+      );
+    }
+    return { durations: narrationSeconds.map((seconds) => seconds / tempo + SCENE_GAP_SECONDS), tempo };
+  }
+
+  const padding = Math.max(0, options.minSeconds - spoken - gaps) / narrationSeconds.length;
+  return { durations: narrationSeconds.map((seconds) => seconds + SCENE_GAP_SECONDS + padding), tempo: 1 };
+}
+
+function formatTimestamp(seconds: number): string {
+  const milliseconds = Math.round(seconds * 1000);
+  const hours = Math.floor(milliseconds / 3600000);
+  const minutes = Math.floor((milliseconds % 3600000) / 60000);
+  const secs = Math.floor((milliseconds % 60000) / 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)},${pad(milliseconds % 1000, 3)}`;
+}
+
+// Helper function to build the SRT caption track: each scene's text in short
+// chunks, timed in proportion to their words over the scene's narration
+export function formatSrt(scenes: Scene[]): string {
+  const cues: string[] = [];
+  for (const scene of scenes) {
+    const words = scene.text.split(/\s+/).filter(Boolean);
+    const secondsPerWord = scene.narrationSeconds / Math.max(1, words.length);
+    for (let i = 0; i < words.length; i += CAPTION_WORDS) {
+      const chunk = words.slice(i, i + CAPTION_WORDS);
+      const start = scene.start + i * secondsPerWord;
+      const end = start + chunk.length * secondsPerWord;
+      cues.push(`${cues.length + 1}\n${formatTimestamp(start)} --> ${formatTimestamp(end)}\n${chunk.join(' ')}\n`);
+    }
+  }
+  return cues.join('\n');
+}
+
+// Helper function to run ffmpeg, killing it when signal is aborted
+function runFfmpeg(ffmpegPath: string, args: string[], signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(ffmpegPath, ['-hide_banner', '-loglevel', 'error', ...args], {
+      stdio: ['ignore', 'ignore', 'pipe'],
+      signal,
+    });
+    let errorOutput = '';
+    child.stderr?.on('data', (chunk: Buffer) => {
+      errorOutput = (errorOutput + chunk.toString()).slice(-4000);
+    });
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      reject(
+        error.code === 'ENOENT'
+          ? new Error(`ffmpeg not found at "${ffmpegPath}"; install it or set video.ffmpegPath`)
+          : error
+      );
+    });
+    child.on('exit', (code) =>
+      code === 0 ? resolve() : reject(new Error(`ffmpeg exited with code ${code}:\n${errorOutput}`))
+    );
+  });
+}
+
+// Helper function to render one scene: the image scaled onto the frame, with its narration
+async function renderScene(
+  scene: Scene,
+  audioPath: string,
+  outputPath: string,
+  tempo: number,
+  options: VideoOptions,
+  signal?: AbortSignal
+) {
+  const { width, height, fps } = options;
+  const video = `[0:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black,setsar=1,format=yuv420p[v]`;
+  const audio = `[1:a]${tempo !== 1 ? `atempo=${tempo.toFixed(4)},` : ''}aresample=44100,apad[a]`;
+  await runFfmpeg(options.ffmpegPath, [
+    '-y',
+    '-loop', '1',
+    '-framerate', String(fps),
+    '-i', scene.image,
+    '-i', audioPath,
+    '-filter_complex', `${video};${audio}`,
+    '-map', '[v]',
+    '-map', '[a]',
+    '-t', scene.duration.toFixed(3),
+    '-r', String(fps),
+    '-c:v', 'libx264',
+    '-tune', 'stillimage',
+    '-preset', 'veryfast',
+    '-c:a', 'aac',
+    '-ac', '2',
+    outputPath,
+  ], signal);
+}
+
+// Helper function to turn the video script into an MP4 with narration and
+// soft captions, plus captions.srt, in outputDir
+export async function renderVideo(
+  script: string,
+  images: { cover?: string; screenshots: string[] },
+  outputDir: string,
+  narrator: NarrationProvider,
+  options: VideoOptions,
+  logger: Logger = console,
+  signal?: AbortSignal
+): Promise<RenderedVideo> {
+  const texts = splitIntoScenes(script, options.sceneWords);
+  if (texts.length === 0) {
+    throw new Error('The video script is empty');
+  }
+  const sceneImages = assignImages(texts.length, images.cover, images.screenshots);
+  // Fail before paying for narration when ffmpeg is missing
+  await runFfmpeg(options.ffmpegPath, ['-version'], signal);
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hackathon-submit-video-'));
+
+  try {
+    logger.log(`Narrating ${texts.length} scenes with ${narrator.name}`);
+    const audioPaths: string[] = [];
+    const narrationSeconds: number[] = [];
+    for (const [index, text] of texts.entries()) {
+      signal?.throwIfAborted();
+      const audioPath = path.join(workDir, `scene${index + 1}.wav`);
+      narrationSeconds.push(await narrator.synthesize(text, audioPath));
+      audioPaths.push(audioPath);
+    }
+
+    const { durations, tempo } = timeScenes(narrationSeconds, options);
+    let start = 0;
+    const scenes: Scene[] = texts.map((text, index) => {
+      const scene = {
+        text,
+        image: sceneImages[index],
+        start,
+        duration: durations[index],
+        narrationSeconds: narrationSeconds[index] / tempo,
+      };
+      start += durations[index];
+      return scene;
+    });
+    logger.log(`Video length ${Math.round(start)}s${tempo !== 1 ? `, narration at ${tempo.toFixed(2)}x` : ''}`);
+
+    const captionsPath = path.join(outputDir, 'captions.srt');
+    fs.writeFileSync(captionsPath, formatSrt(scenes), 'utf8');
+
+    const segmentPaths: string[] = [];
+    for (const [index, scene] of scenes.entries()) {
+      const segmentPath = path.join(workDir, `scene${index + 1}.mp4`);
+      await renderScene(scene, audioPaths[index], segmentPath, tempo, options, signal);
+      segmentPaths.push(segmentPath);
+    }
+
+    const listPath = path.join(workDir, 'scenes.txt');
+    fs.writeFileSync(listPath, segmentPaths.map((segmentPath) => `file '${segmentPath}'`).join('\n'), 'utf8');
+    const videoPath = path.join(outputDir, 'video.mp4');
+    await runFfmpeg(options.ffmpegPath, [
+      '-y',
+      '-f', 'concat',
+      '-safe', '0',
+      '-i', listPath,
+      '-i', captionsPath,
+      '-map', '0:v',
+      '-map', '0:a',
+      '-map', '1:0',
+      '-c:v', 'copy',
+      '-c:a', 'copy',
+      '-c:s', 'mov_text',
+      '-metadata:s:s:0', 'language=eng',
+      '-movflags', '+faststart',
+      videoPath,
+    ], signal);
+
+    const durationSeconds = await probeDuration(videoPath, options.ffprobePath, signal);
+    if (durationSeconds < options.minSeconds - 1 || durationSeconds > options.maxSeconds + 1) {
+      throw new Error(
+        `Rendered video is ${Math.round(durationSeconds)}s, outside the ${options.minSeconds}-${options.maxSeconds}s window`
+      );
+    }
+    return { videoPath, captionsPath, scenes, durationSeconds };
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
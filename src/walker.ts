@@ -0,0 +1,270 @@
+import fs from 'fs';
+import path from 'path';
+import ignore, { Ignore } from 'ignore';
+import { Logger } from './artifacts';
+import { FileSummary } from './condense';
+import { SecretFinding, SecretOptions, redactSecrets } from './secrets';
+import { analyzeFile, isSupportedFile } from './summarizers';
+
+export interface WalkerOptions {
+  // gitignore-style globs; when non-empty only matching files are read
+  include: string[];
+  // gitignore-style globs skipped on top of .gitignore and the built-in excludes
+  exclude: string[];
+  // Overrides the summarizer registry's extensions, e.g. ['.ts', '.md']
+  extensions?: string[];
+  maxFileBytes: number;
+  maxTotalBytes: number;
+}
+
+export type SkipReason =
+  | 'gitignore'
+  | 'excluded'
+  | 'not-included'
+  | 'vendored'
+  | 'unsupported-type'
+  | 'symlink'
+  | 'binary'
+  | 'too-large'
+  | 'total-limit'
+  | 'generated'
+  | 'minified'
+  | 'unreadable';
+
+export interface SkippedFile {
+  path: string;
+  reason: SkipReason;
+  detail?: string;
+}
+
+export interface WalkResult {
+  files: FileSummary[];
+  skipped: SkippedFile[];
+  totalBytes: number;
+  // Secrets redacted from the files before they were summarized
+  secrets: SecretFinding[];
+}
+
+// Dependency, build and cache directories that never contain the project's own code
+const VENDORED_DIRS = [
+  '.git/',
+  'node_modules/',
+  'bower_components/',
+  'vendor/',
+  'dist/',
+  'build/',
+  'out/',
+  '.next/',
+  '.nuxt/',
+  '.svelte-kit/',
+  '.turbo/',
+  '.cache/',
+  'coverage/',
+  'target/',
+  '__pycache__/',
+  '.venv/',
+  'venv/',
+  '.tox/',
+  'artifacts/',
+  'typechain/',
+  'typechain-types/',
+  'broadcast/',
+];
+
+const GENERATED_FILES = [
+  '*.min.js',
+  '*.min.css',
+  '*.map',
+  '*.bundle.js',
+  '*.chunk.js',
+  '*.generated.*',
+  '*_pb2.py',
+  '*.pb.go',
+  'package-lock.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'Cargo.lock',
+  'go.sum',
+  'poetry.lock',
+];
+
+const GENERATED_MARKERS = /@generated|auto-generated|autogenerated|do not edit|code generated by/i;
+
+// Helper function to normalize a path relative to the repository root
+function toRelative(root: string, filePath: string): string {
+  return path.relative(root, filePath).split(path.sep).join('/');
+}
+
+// Helper function to detect binary content by looking for NUL bytes
+function isBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8000).includes(0);
+}
+
+// Helper function to spot minified sources: very long lines instead of code structure
+function isMinified(content: string): boolean {
+  const lines = content.split('\n');
+  const longestLine = Math.max(...lines.map((line) => line.length));
+  return longestLine > 1000 && content.length / lines.length > 300;
+}
+
+// A .gitignore applies to paths relative to the directory it lives in
+interface IgnoreScope {
+  base: string;
+  rules: Ignore;
+}
+
+function isIgnored(scopes: IgnoreScope[], filePath: string, isDirectory: boolean): boolean {
+  return scopes.some(({ base, rules }) => {
+    const relative = path.relative(base, filePath).split(path.sep).join('/');
+    return relative !== '' && rules.ignores(isDirectory ? `${relative}/` : relative);
+  });
+}
+
+// Helper function to walk a repository, honoring .gitignore and the walker
+// config, summarizing every supported file and recording what was skipped.
+// With secret options, secrets are redacted before a file is summarized.
+export function walkRepository(
+  root: string,
+  options: WalkerOptions,
+  secrets?: SecretOptions,
+  logger: Logger = console
+): WalkResult {
+  const result: WalkResult = { files: [], skipped: [], totalBytes: 0, secrets: [] };
+  const vendored = ignore().add(VENDORED_DIRS);
+  const generated = ignore().add(GENERATED_FILES);
+  const excluded = ignore().add(options.exclude);
+  const included = ignore().add(options.include);
+
+  const isSupported = (filename: string) =>
+    options.extensions
+      ? options.extensions.includes(path.extname(filename).toLowerCase())
+      : isSupportedFile(filename);
+
+  const visit = (dir: string, scopes: IgnoreScope[]) => {
+    const gitignorePath = path.join(dir, '.gitignore');
+    if (fs.existsSync(gitignorePath)) {
+      scopes = [
+        ...scopes,
+        { base: dir, rules: ignore().add(fs.readFileSync(gitignorePath, 'utf8')) },
+      ];
+    }
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+      const filePath = path.join(dir, entry.name);
+      const relativePath = toRelative(root, filePath);
+      const skip = (reason: SkipReason, detail?: string) =>
+        result.skipped.push({ path: entry.isDirectory() ? `${relativePath}/` : relativePath, reason, detail });
+
+      if (entry.isSymbolicLink()) {
+        skip('symlink');
+        continue;
+      }
+
+      if (entry.isDirectory()) {
+        if (vendored.ignores(`${relativePath}/`)) {
+          // .git is never interesting enough to mention
+          if (entry.name !== '.git') {
+            skip('vendored');
+          }
+        } else if (isIgnored(scopes, filePath, true)) {
+          skip('gitignore');
+        } else if (excluded.ignores(`${relativePath}/`)) {
+          skip('excluded');
+        } else {
+          visit(filePath, scopes);
+        }
+        continue;
+      }
+
+      if (!entry.isFile()) {
+        continue;
+      }
+      if (isIgnored(scopes, filePath, false)) {
+        skip('gitignore');
+        continue;
+      }
+      if (excluded.ignores(relativePath)) {
+        skip('excluded');
+        continue;
+      }
+      if (options.include.length > 0 && !included.ignores(relativePath)) {
+        skip('not-included');
+        continue;
+      }
+      if (generated.ignores(relativePath)) {
+        skip('generated');
+        continue;
+      }
+      if (!isSupported(entry.name)) {
+        skip('unsupported-type');
+        continue;
+      }
+
+      const { size } = fs.statSync(filePath);
+      if (size > options.maxFileBytes) {
+        skip('too-large', `${size} bytes > ${options.maxFileBytes}`);
+        continue;
+      }
+      if (result.totalBytes + size > options.maxTotalBytes) {
+        skip('total-limit', `would exceed ${options.maxTotalBytes} bytes in total`);
+        continue;
+      }
+
+      try {
+        const buffer = fs.readFileSync(filePath);
+        if (isBinary(buffer)) {
+          skip('binary');
+          continue;
+        }
+        const content = buffer.toString('utf8');
+        if (GENERATED_MARKERS.test(content.slice(0, 500))) {
+          skip('generated', 'generated-code marker in header');
+          continue;
+        }
+        if (isMinified(content)) {
+          skip('minified');
+          continue;
+        }
+
+        let summarized = content;
+        if (secrets) {
+          const redaction = redactSecrets(content, relativePath, secrets);
+          summarized = redaction.content;
+          result.secrets.push(...redaction.findings);
+        }
+
+        result.totalBytes += size;
+        result.files.push({
+          path: relativePath,
+          ...analyzeFile(summarized, relativePath, logger),
+        });
+      } catch (error) {
+        logger.error(`Error reading file ${filePath}:`, error);
+        skip('unreadable', (error as Error).message);
+      }
+    }
+  };
+
+  visit(root, []);
+  return result;
+}
+
+// Helper function to render the skipped files as a short report for the run log
+export function formatSkipReport(result: WalkResult): string {
+  const byReason = new Map<SkipReason, SkippedFile[]>();
+  for (const file of result.skipped) {
+    byReason.set(file.reason, [...(byReason.get(file.reason) || []), file]);
+  }
+
+  const lines = [
+    `Read ${result.files.length} files (${result.totalBytes} bytes), skipped ${result.skipped.length}:`,
+  ];
+  for (const [reason, files] of byReason) {
+    // Unsupported files are only counted, the list is rarely interesting
+    const listed = reason === 'unsupported-type' ? [] : files.slice(0, 10);
+    const details = listed.map((file) => `${file.path}${file.detail ? ` (${file.detail})` : ''}`);
+    const more = files.length > listed.length && listed.length > 0 ? `, +${files.length - listed.length} more` : '';
+    lines.push(`  - ${reason}: ${files.length}${details.length > 0 ? ` — ${details.join(', ')}${more}` : ''}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,146 @@
+import { expect, test } from '@playwright/test';
+import { ClaimOptions, RepositoryFacts, formatClaimReport, verifyClaims } from '../src/claims';
+
+const facts: RepositoryFacts = {
+  files: ['package.json', 'src/index.ts', 'src/upload.ts', 'scripts/deploy.ts', '.env.example'],
+  dependencies: ['demo-app', 'express', 'zod', '@octokit/rest'],
+  technologies: ['TypeScript', 'Express'],
+  scripts: ['build', 'dev', 'test'],
+  envVars: ['OPENAI_API_KEY', 'GITHUB_TOKEN'],
+  hosts: ['demo-app.vercel.app'],
+  repository: { owner: 'org', repo: 'demo-app' },
+  vocabulary: ['uploa', 'image', 'express', 'route', 'valid', 'schem', 'deplo', 'scrip'],
+};
+
+const remove: ClaimOptions = { onUnsupported: 'remove', allow: [] };
+const flag: ClaimOptions = { onUnsupported: 'flag', allow: [] };
+
+const kinds = (markdown: string, options = remove) =>
+  verifyClaims(markdown, facts, options).claims.map((claim) => [claim.kind, claim.claim]);
+
+test.describe('verifyClaims', () => {
+  test('accepts claims the repository backs', () => {
+    const markdown = [
+      '# Demo',
+      '',
+      'Set `OPENAI_API_KEY` in `.env.example`, then run `npm run dev`. See [the entry point](src/index.ts).',
+      '',
+      '## Dependencies',
+      '- **express**: web server',
+      '- [Zod](https://zod.dev) for validation',
+      '- Node.js 18+',
+      '',
+      '```bash',
+      'npm install',
+      'npm test',
+      'npx tsx scripts/deploy.ts',
+      '```',
+      '',
+      'Live at https://demo-app.vercel.app and on [GitHub](https://github.com/org/demo-app).',
+    ].join('\n');
+    const result = verifyClaims(markdown, facts, remove);
+    expect(result.claims).toEqual([]);
+    expect(result.text).toBe(markdown);
+  });
+
+  test('finds made-up dependencies, scripts, env vars and files', () => {
+    expect(
+      kinds(
+        [
+          '## Built with',
+          '- **lodash**: utilities',
+          '',
+          'Run `npm run storybook` with `STRIPE_SECRET` set, see `src/server/app.ts`.',
+          '',
+          '```sh',
+          'yarn add axios',
+          'make deploy',
+          '```',
+        ].join('\n')
+      )
+    ).toEqual([
+      ['dependency', 'lodash'],
+      ['script', 'storybook'],
+      ['envVar', 'STRIPE_SECRET'],
+      ['file', 'src/server/app.ts'],
+      ['dependency', 'axios'],
+      ['script', 'deploy'],
+    ]);
+  });
+
+  test('finds placeholder, deployment and wrong-owner links', () => {
+    expect(
+      kinds(
+        [
+          'Clone https://github.com/yourusername/demo-app.',
+          'Try it at https://made-up.vercel.app.',
+          'Fork of [demo-app](https://github.com/someone-else/demo-app).',
+        ].join('\n')
+      )
+    ).toEqual([
+      ['link', 'https://github.com/yourusername/demo-app'],
+      ['link', 'https://made-up.vercel.app'],
+      ['link', 'https://github.com/someone-else/demo-app'],
+    ]);
+  });
+
+  test('checks feature list items against the code vocabulary', () => {
+    const markdown = ['## Features', '- Image uploads with schema validation', '- Blockchain wallet staking rewards'].join('\n');
+    const result = verifyClaims(markdown, facts, remove);
+    expect(result.claims.map((claim) => [claim.line, claim.kind, claim.action])).toEqual([[3, 'feature', 'removed']]);
+    expect(result.text).toBe('## Features\n- Image uploads with schema validation');
+  });
+
+  test('removes list items and code lines but only the links from prose', () => {
+    const markdown = [
+      'Read [the guide](docs/guide.md) before you start, it costs $$5 to run.',
+      '![banner](assets/banner.png)',
+      '',
+      '```bash',
+      'npm run storybook',
+      'npm run build',
+      '```',
+    ].join('\n');
+    const result = verifyClaims(markdown, facts, remove);
+    expect(result.text).toBe(
+      ['Read the guide before you start, it costs $$5 to run.', '', '```bash', 'npm run build', '```'].join('\n')
+    );
+    expect(result.claims.map((claim) => claim.action)).toEqual(['removed', 'removed', 'removed']);
+  });
+
+  test('keeps every line when flagging', () => {
+    const markdown = '- Uses `STRIPE_SECRET`\n- See [the guide](docs/guide.md)';
+    const result = verifyClaims(markdown, facts, flag);
+    expect(result.text).toBe(markdown);
+    expect(result.claims.map((claim) => [claim.line, claim.action])).toEqual([
+      [1, 'flagged'],
+      [2, 'flagged'],
+    ]);
+  });
+
+  test('accepts claims on the allow list', () => {
+    expect(kinds('Set `VERCEL_URL` and run `npm run storybook`.', { ...remove, allow: ['vercel_url', 'storybook'] })).toEqual(
+      []
+    );
+  });
+});
+
+test.describe('formatClaimReport', () => {
+  test('says when every claim is backed', () => {
+    expect(formatClaimReport('README', [])).toContain('# README claims\n\nEvery dependency');
+  });
+
+  test('lists each claim with its line and action', () => {
+    const { claims } = verifyClaims('- Uses `STRIPE_SECRET`', facts, remove);
+    expect(formatClaimReport('description', claims)).toBe(
+      [
+        '# Description claims',
+        '',
+        '1 unsupported claim: 1 removed, 0 flagged for review.',
+        '',
+        '- line 1, envVar `STRIPE_SECRET`: never mentioned in the code or config (removed)',
+        '',
+      ].join('\n')
+    );
+  });
+});
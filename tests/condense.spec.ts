@@ -0,0 +1,71 @@
+import { expect, test } from '@playwright/test';
+import { FileSummary, condenseCodebase } from '../src/condense';
+import { ChatMessage, LLMProvider } from '../src/providers';
+
+const budget = { budgetTokens: 150, chunkTokens: 200 };
+
+// Four modules of one file each, ~100 tokens per file summary
+const files: FileSummary[] = ['api', 'web', 'cli', 'core'].map((name) => ({
+  path: `src/${name}/index.ts`,
+  summary: `The ${name} module. `.repeat(25),
+}));
+
+// A provider that answers every prompt with reply(prompt) and records the prompts
+function fakeProvider(reply: (prompt: string) => string): LLMProvider & { prompts: string[] } {
+  const prompts: string[] = [];
+  return {
+    name: 'fake',
+    prompts,
+    async complete(messages: ChatMessage[]) {
+      const prompt = messages[messages.length - 1].content;
+      prompts.push(prompt);
+      return reply(prompt);
+    },
+    async generateImages() {
+      return [];
+    },
+  };
+}
+
+test.describe('condenseCodebase', () => {
+  test('returns the file summaries as they are when they fit the budget', async () => {
+    const provider = fakeProvider(() => 'unused');
+    const summary = await condenseCodebase(provider, files.slice(0, 1), budget, 0, { log: () => {}, error: () => {} });
+    expect(summary).toContain('**File:** /src/api/index.ts');
+    expect(provider.prompts).toEqual([]);
+  });
+
+  test('summarizes each module, then merges the summaries until they fit', async () => {
+    const provider = fakeProvider((prompt) =>
+      prompt.startsWith('Condense') ? 'Module summary. '.repeat(12) : 'Merged summary.'
+    );
+    const summary = await condenseCodebase(provider, files, budget, 0, { log: () => {}, error: () => {} });
+
+    const map = provider.prompts.filter((prompt) => prompt.startsWith('Condense'));
+    const reduce = provider.prompts.filter((prompt) => !prompt.startsWith('Condense'));
+    expect(map.map((prompt) => prompt.match(/summary of (module \S+)/)![1])).toEqual([
+      'module src/api',
+      'module src/web',
+      'module src/cli',
+      'module src/core',
+    ]);
+    expect(reduce.length).toBeGreaterThan(0);
+    for (const prompt of reduce) {
+      expect(prompt).toMatch(/^The following \d+ summaries, separated by ---, each cover part of the same project/);
+      expect(prompt).toContain('### module src/');
+      expect(prompt).not.toContain('**File:**');
+    }
+    expect(summary).toBe(reduce.map(() => 'Merged summary.').join('\n\n'));
+  });
+
+  test('truncates to the budget when merging no longer shrinks the summary', async () => {
+    const errors: string[] = [];
+    const provider = fakeProvider(() => 'Still long. '.repeat(40));
+    const summary = await condenseCodebase(provider, files, budget, 0, {
+      log: () => {},
+      error: (message: string) => errors.push(message),
+    });
+    expect(summary).toHaveLength(budget.budgetTokens * 4);
+    expect(errors).toEqual([expect.stringContaining('truncating to the 150 token budget')]);
+  });
+});
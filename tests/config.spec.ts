@@ -0,0 +1,39 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect, test } from '@playwright/test';
+import { loadConfig } from '../src/config';
+
+test.describe('loadConfig', () => {
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const load = (history: Record<string, string>) => {
+    const file = path.join(dir, 'submit.config.json');
+    fs.writeFileSync(file, JSON.stringify({ history }));
+    return loadConfig(file);
+  };
+
+  test('accepts the hackathon window as ISO dates', () => {
+    const config = load({ eventStart: '2024-11-15T09:00:00+07:00', eventEnd: '2024-11-17' });
+    expect(config.history).toMatchObject({ eventStart: '2024-11-15T09:00:00+07:00', eventEnd: '2024-11-17' });
+  });
+
+  test('rejects event dates that are not ISO dates', () => {
+    expect(() => load({ eventStart: 'next friday' })).toThrow(
+      'history.eventStart must be an ISO date, e.g. "2024-11-15T09:00:00+07:00", got "next friday"'
+    );
+    expect(() => load({ eventStart: '2024-11-15', eventEnd: 'Nov 17 2024' })).toThrow('history.eventEnd must be an ISO date');
+  });
+
+  test('rejects an event that ends before it starts', () => {
+    expect(() => load({ eventStart: '2024-11-17', eventEnd: '2024-11-15' })).toThrow('is before history.eventStart');
+  });
+});
@@ -0,0 +1,82 @@
+import { expect, test } from '@playwright/test';
+import { ContentContext, generateFormContent } from '../src/content';
+import { ContentSpec } from '../src/forms';
+import { ChatMessage, LLMProvider } from '../src/providers';
+
+const quiet = { log: () => {}, error: () => {} };
+const context: ContentContext = {
+  projectName: 'Gasless Wallet',
+  briefDescription: 'A wallet that pays for gas with stablecoins.',
+  detailedDescription: 'A wallet that pays for gas with stablecoins, so new users never need to hold ETH.',
+  codeSummary: 'src/paymaster.ts sponsors user operations.',
+  history: 'Built from 2024-11-15 to 2024-11-17 in 12 commits by Ada.',
+};
+const spec = (purpose: string, minChars: number, maxChars?: number): ContentSpec => ({
+  purpose,
+  minChars,
+  maxChars,
+  tone: 'clear, concrete and professional',
+});
+
+// A provider that answers with the given responses in turn and records the conversations
+function scriptedProvider(responses: string[]): LLMProvider & { conversations: ChatMessage[][] } {
+  const conversations: ChatMessage[][] = [];
+  return {
+    name: 'scripted',
+    conversations,
+    async complete(messages: ChatMessage[]) {
+      conversations.push([...messages]);
+      return responses[conversations.length - 1];
+    },
+    async generateImages() {
+      return [];
+    },
+  };
+}
+
+// The feedback the model got after its previous response was rejected
+const feedback = (conversation: ChatMessage[]) => conversation[conversation.length - 1].content;
+
+test.describe('generateFormContent', () => {
+  test('asks for a rewrite of text that is too short or too long', async () => {
+    const provider = scriptedProvider(['Too short.', 'x'.repeat(60), 'Just the right length here.']);
+    const written = await generateFormContent(provider, { tagline: spec('A one-line pitch', 20, 40) }, context, 2, quiet);
+
+    expect(written).toEqual({ tagline: 'Just the right length here.' });
+    expect(feedback(provider.conversations[1])).toContain(
+      'The text is 10 characters but must be at least 20. Expand it with more concrete detail.'
+    );
+    expect(feedback(provider.conversations[2])).toContain(
+      'The text is 60 characters but must be at most 40. Rewrite it more concisely as complete sentences; do not cut it off.'
+    );
+  });
+
+  test('measures the text without surrounding whitespace', async () => {
+    const provider = scriptedProvider([`   ${'y'.repeat(40)}   \n`]);
+    const written = await generateFormContent(provider, { tagline: spec('A one-line pitch', 20, 40) }, context, 0, quiet);
+    expect(written.tagline).toBe('y'.repeat(40));
+  });
+
+  test('rejects a field that repeats one written before it', async () => {
+    const text = 'A wallet that pays for gas with stablecoins.';
+    const provider = scriptedProvider([text, ` ${text}`, 'It sponsors user operations with a paymaster.']);
+    const written = await generateFormContent(
+      provider,
+      { whatItDoes: spec('What the project does', 10), howItsMade: spec('How the project is built', 10) },
+      context,
+      1,
+      quiet
+    );
+
+    expect(written).toEqual({ whatItDoes: text, howItsMade: 'It sponsors user operations with a paymaster.' });
+    expect(feedback(provider.conversations[2])).toContain(
+      "The text is identical to the whatItDoes field. Write content specific to this field's purpose."
+    );
+  });
+
+  test('fails when the model never meets the spec', async () => {
+    const provider = scriptedProvider(['Short.', 'Short.']);
+    const run = generateFormContent(provider, { tagline: spec('A one-line pitch', 20) }, context, 1, quiet);
+    await expect(run).rejects.toThrow('Form field tagline from scripted failed validation after 2 attempts');
+  });
+});
@@ -0,0 +1,88 @@
+import path from 'path';
+import { Locator, Page } from 'playwright';
+import { expect, test } from '@playwright/test';
+import { checkValidationMessages, loadFormDefinition, matchSelectOptions } from '../src/forms';
+
+const quiet = { log: () => {}, error: () => {} };
+
+// Stands in for a <select> locator, so the matching runs without a browser
+function fakeSelect(options: string[], multiple: boolean): Locator {
+  const select = {
+    locator: () => ({ allTextContents: async () => options.map((option) => `  ${option}\n`) }),
+    evaluate: async (read: (element: { multiple: boolean }) => boolean) => read({ multiple }),
+  };
+  return select as unknown as Locator;
+}
+
+interface FakeMessage {
+  visible: boolean;
+  text?: string;
+  name?: string;
+}
+
+// Stands in for a page whose validation message selector matches messages
+function fakePage(messages: FakeMessage[]): Page & { selectors: string[] } {
+  const selectors: string[] = [];
+  const page = {
+    selectors,
+    locator: (selector: string) => {
+      selectors.push(selector);
+      return {
+        count: async () => messages.length,
+        nth: (index: number) => ({
+          isVisible: async () => messages[index].visible,
+          textContent: async () => messages[index].text ?? '',
+          getAttribute: async () => messages[index].name ?? null,
+        }),
+      };
+    },
+  };
+  return page as unknown as Page & { selectors: string[] };
+}
+
+test.describe('matchSelectOptions', () => {
+  const options = ['TypeScript', 'JavaScript', 'Solidity', 'Rust', 'Other'];
+
+  test('picks every matching option of a multiple select', async () => {
+    const select = fakeSelect(options, true);
+    expect(await matchSelectOptions(select, ['Solidity', 'Typescript', 'Erlang'], 'Other', quiet)).toEqual([
+      'Solidity',
+      'TypeScript',
+    ]);
+  });
+
+  test('picks only the best match of a single select', async () => {
+    const select = fakeSelect(['Next.js', 'React', 'Vue'], false);
+    expect(await matchSelectOptions(select, ['React', 'NextJS'], undefined, quiet)).toEqual(['React']);
+  });
+
+  test('uses the fallback when nothing matches', async () => {
+    const select = fakeSelect(options, true);
+    expect(await matchSelectOptions(select, ['Erlang'], 'Other', quiet)).toEqual(['Other']);
+    await expect(matchSelectOptions(select, ['Erlang'], undefined, quiet)).rejects.toThrow(
+      'None of [Erlang] matches an option of the select, and it has no fallback'
+    );
+  });
+});
+
+test.describe('checkValidationMessages', () => {
+  const form = loadFormDefinition(path.join(__dirname, '..', 'forms', 'ethglobal-bangkok.json'), quiet);
+
+  test('passes when the form shows no messages, or only hidden ones', async () => {
+    await expect(checkValidationMessages(fakePage([]), form)).resolves.toBeUndefined();
+    await expect(checkValidationMessages(fakePage([{ visible: false, text: 'Required' }]), form)).resolves.toBeUndefined();
+  });
+
+  test("fails with the form's own visible messages", async () => {
+    const page = fakePage([
+      { visible: true, text: '  Description is too short ' },
+      { visible: false, text: 'Hidden' },
+      { visible: true, name: 'repoUrl' },
+      { visible: true },
+    ]);
+    await expect(checkValidationMessages(page, form)).rejects.toThrow(
+      'The form reported validation errors: Description is too short; repoUrl; invalid field'
+    );
+    expect(page.selectors).toEqual([form.readiness.validationMessages]);
+  });
+});
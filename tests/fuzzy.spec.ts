@@ -0,0 +1,48 @@
+import { expect, test } from '@playwright/test';
+import { matchOptions, mentions, normalizeName, similarity } from '../src/fuzzy';
+
+test.describe('normalizeName', () => {
+  test('drops a separated js suffix, case, punctuation and remarks', () => {
+    expect(normalizeName('Next.js')).toBe('next');
+    expect(normalizeName('Node JS')).toBe('node');
+    expect(normalizeName('Vue-js')).toBe('vue');
+    expect(normalizeName('Ethers.js (v6)')).toBe('ethers');
+    expect(normalizeName('Tailwind CSS')).toBe('tailwindcss');
+  });
+
+  test('keeps names that merely end in js or lang', () => {
+    expect(normalizeName('Erlang')).toBe('erlang');
+    expect(normalizeName('Golang')).toBe('golang');
+    expect(normalizeName('Nodejs')).toBe('nodejs');
+    expect(normalizeName('js')).toBe('js');
+  });
+});
+
+test.describe('similarity', () => {
+  test('treats spellings of the same name as equal', () => {
+    expect(similarity('Next.js', 'next js')).toBe(1);
+    expect(similarity('PostgreSQL', 'Postgres')).toBe(0.9);
+  });
+
+  test('tells unrelated languages apart', () => {
+    expect(similarity('Erlang', 'Elm')).toBeLessThan(0.8);
+    expect(similarity('Golang', 'Go')).toBeLessThan(0.8);
+    expect(similarity('React', 'React Native')).toBeLessThan(0.8);
+  });
+});
+
+test.describe('matchOptions', () => {
+  test('picks the best option per name, best match first', () => {
+    expect(matchOptions(['Postgres', 'Next.js', 'Erlang'], ['PostgreSQL', 'Next.js', 'Nuxt', 'Elixir'])).toEqual([
+      'Next.js',
+      'PostgreSQL',
+    ]);
+  });
+});
+
+test.describe('mentions', () => {
+  test('matches whole words only', () => {
+    expect(mentions('Best use of Chainlink CCIP', 'Chainlink')).toBe(true);
+    expect(mentions('Best use of Chainlink CCIP', 'Link')).toBe(false);
+  });
+});
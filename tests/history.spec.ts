@@ -0,0 +1,187 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect, test } from '@playwright/test';
+import { HistoryOptions, analyzeHistory, formatHistoryNarrative, formatHistoryReport } from '../src/history';
+import { RepositorySource } from '../src/source';
+
+const options: HistoryOptions = {
+  eventStart: '2024-11-15T09:00:00Z',
+  eventEnd: '2024-11-17T12:00:00Z',
+  maxPreEventShare: 0.5,
+  maxCommits: 1000,
+  excludeAuthors: ['\\[bot\\]'],
+};
+
+// A throwaway repository whose commits are made at the given dates
+class TestRepository {
+  readonly dir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-'));
+
+  constructor() {
+    this.git('init', '-q', '-b', 'main');
+  }
+
+  git(...args: string[]): string {
+    return execFileSync('git', args, { cwd: this.dir, encoding: 'utf8' });
+  }
+
+  // Writes lines lines to file and commits them; committed is the committer
+  // date, which differs from the author date after a rebase
+  commit(
+    date: string,
+    file: string,
+    lines: number,
+    { author = 'Ada <ada@example.com>', subject = `Add ${file}`, committed = date } = {}
+  ) {
+    fs.writeFileSync(path.join(this.dir, file), Array.from({ length: lines }, (_, i) => `line ${i}`).join('\n'));
+    this.git('add', '-A');
+    const [, name, email] = author.match(/^(.*) <(.*)>$/)!;
+    execFileSync('git', ['commit', '-q', '-m', subject], {
+      cwd: this.dir,
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: name,
+        GIT_AUTHOR_EMAIL: email,
+        GIT_COMMITTER_NAME: name,
+        GIT_COMMITTER_EMAIL: email,
+        GIT_AUTHOR_DATE: date,
+        GIT_COMMITTER_DATE: committed,
+      },
+    });
+  }
+
+  source(): RepositorySource {
+    return {
+      spec: { location: this.dir },
+      root: this.dir,
+      dir: this.dir,
+      commit: this.git('rev-parse', 'HEAD').trim(),
+      shallow: false,
+      cleanup: () => {},
+    };
+  }
+
+  remove() {
+    fs.rmSync(this.dir, { recursive: true, force: true });
+  }
+}
+
+test.describe('analyzeHistory eligibility', () => {
+  let repository: TestRepository;
+
+  test.beforeEach(() => {
+    repository = new TestRepository();
+  });
+
+  test.afterEach(() => {
+    repository.remove();
+  });
+
+  test('is eligible when everything was built during the event', async () => {
+    repository.commit('2024-11-15T10:00:00Z', 'a.ts', 40);
+    repository.commit('2024-11-16T10:00:00Z', 'b.ts', 60);
+    const report = await analyzeHistory(repository.source(), options);
+    expect(report?.eligibility).toEqual({ status: 'eligible', reasons: [], commitsBeforeStart: 0, commitsAfterEnd: 0 });
+  });
+
+  test('flags a project whose code mostly predates the event', async () => {
+    repository.commit('2024-10-01T10:00:00Z', 'old.ts', 90);
+    repository.commit('2024-11-16T10:00:00Z', 'new.ts', 10);
+    const eligibility = (await analyzeHistory(repository.source(), options))?.eligibility;
+    expect(eligibility?.status).toBe('flagged');
+    expect(eligibility?.preEventShare).toBeCloseTo(0.9);
+    expect(eligibility?.reasons).toEqual(['90% of the code already existed before the event started (at most 50% allowed)']);
+  });
+
+  test('notes a small pre-event start without flagging it', async () => {
+    repository.commit('2024-11-14T10:00:00Z', 'scaffold.ts', 10);
+    repository.commit('2024-11-16T10:00:00Z', 'app.ts', 90);
+    const eligibility = (await analyzeHistory(repository.source(), options))?.eligibility;
+    expect(eligibility?.status).toBe('eligible');
+    expect(eligibility?.commitsBeforeStart).toBe(1);
+    expect(eligibility?.reasons).toEqual(['1 commit predates the event, 10% of the current code']);
+  });
+
+  test('counts pre-event code deleted during the event as gone', async () => {
+    repository.commit('2024-10-01T10:00:00Z', 'old.ts', 90);
+    repository.git('rm', '-q', 'old.ts');
+    repository.commit('2024-11-16T10:00:00Z', 'new.ts', 30);
+    const eligibility = (await analyzeHistory(repository.source(), options))?.eligibility;
+    expect(eligibility?.status).toBe('eligible');
+    expect(eligibility?.preEventShare).toBe(0);
+  });
+
+  test('flags commits made after the event ended', async () => {
+    repository.commit('2024-11-16T10:00:00Z', 'a.ts', 40);
+    repository.commit('2024-11-20T10:00:00Z', 'b.ts', 5);
+    const eligibility = (await analyzeHistory(repository.source(), options))?.eligibility;
+    expect(eligibility?.status).toBe('flagged');
+    expect(eligibility?.commitsAfterEnd).toBe(1);
+    expect(eligibility?.reasons).toEqual(['1 commit was made after the event ended']);
+  });
+
+  test('is unknown when the commits before the event were not fetched', async () => {
+    repository.commit('2024-10-01T10:00:00Z', 'old.ts', 90);
+    repository.commit('2024-11-16T10:00:00Z', 'a.ts', 10);
+    repository.commit('2024-11-16T11:00:00Z', 'b.ts', 10);
+    const shallow = fs.mkdtempSync(path.join(os.tmpdir(), 'history-shallow-'));
+    try {
+      execFileSync('git', ['clone', '-q', '--depth', '2', `file://${repository.dir}`, shallow]);
+      // Not deepened, as if the fetch had failed
+      const source = { ...repository.source(), root: shallow, dir: shallow };
+      const report = await analyzeHistory(source, options);
+      expect(report?.truncated).toBe(true);
+      expect(report?.eligibility?.status).toBe('unknown');
+      expect(report?.eligibility?.reasons).toEqual(['Only the latest 2 commits were read; raise history.maxCommits']);
+    } finally {
+      fs.rmSync(shallow, { recursive: true, force: true });
+    }
+  });
+
+  test('leaves excluded authors out of the team', async () => {
+    repository.commit('2024-11-15T10:00:00Z', 'a.ts', 40);
+    repository.commit('2024-11-15T11:00:00Z', 'b.ts', 40, { author: 'Grace <grace@example.com>' });
+    repository.commit('2024-11-15T12:00:00Z', 'c.ts', 40, { author: 'dependabot[bot] <bot@example.com>' });
+    const report = await analyzeHistory(repository.source(), options);
+    expect(report?.commits).toBe(2);
+    expect(report?.contributors.map((contributor) => contributor.name).sort()).toEqual(['Ada', 'Grace']);
+  });
+
+  test('skips the check without an event window', async () => {
+    repository.commit('2024-10-01T10:00:00Z', 'old.ts', 90);
+    const report = await analyzeHistory(repository.source(), { ...options, eventStart: undefined, eventEnd: undefined });
+    expect(report?.eligibility).toBeUndefined();
+    expect(formatHistoryReport(report)).not.toContain('## Eligibility');
+  });
+
+  test('dates commits by when they were written, not when they were rebased', async () => {
+    repository.commit('2024-10-01T10:00:00Z', 'old.ts', 90, { committed: '2024-11-16T09:00:00Z' });
+    repository.commit('2024-11-16T10:00:00Z', 'new.ts', 10);
+    const report = await analyzeHistory(repository.source(), options);
+    expect(report?.firstCommit).toBe('2024-10-01T10:00:00+00:00');
+    expect(report?.eligibility?.commitsBeforeStart).toBe(1);
+    expect(report?.eligibility?.status).toBe('flagged');
+    expect(report?.eligibility?.preEventShare).toBeCloseTo(0.9);
+  });
+});
+
+test.describe('analyzeHistory secrets', () => {
+  test('redacts secrets from commit subjects before they reach a prompt', async () => {
+    const repository = new TestRepository();
+    try {
+      // Built from parts so this file doesn't look like it leaks anything
+      const key = ['AKIA', 'IOSFODNN7EXAMPLE'].join('');
+      repository.commit('2024-11-15T10:00:00Z', 'a.ts', 40, { subject: `Use key ${key} for uploads` });
+      const secrets = { onFound: 'redact' as const, patterns: [], allow: [], entropyThreshold: 4.2 };
+      const report = await analyzeHistory(repository.source(), options, secrets);
+      expect(report?.secrets).toEqual([
+        { file: `commit ${repository.source().commit!.slice(0, 7)}`, line: 1, detector: 'awsAccessKey', preview: 'AKIA…' },
+      ]);
+      expect(formatHistoryNarrative(report)).toContain('Use key [REDACTED:awsAccessKey] for uploads');
+      expect(formatHistoryNarrative(report)).not.toContain(key);
+    } finally {
+      repository.remove();
+    }
+  });
+});
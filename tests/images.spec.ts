@@ -0,0 +1,82 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { expect, test } from '@playwright/test';
+import { loadFormDefinition } from '../src/forms';
+import { checkUploadFile, validateUploads } from '../src/images';
+
+const quiet = { log: () => {}, error: () => {} };
+const logoSpec = { width: 512, height: 512, fit: 'cover' as const, format: 'png' as const, maxBytes: 1048576 };
+
+let dir: string;
+
+test.beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'images-'));
+});
+
+test.afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Helper function to write a blank image of the given size and format
+async function image(name: string, width: number, height: number, format: 'png' | 'jpeg'): Promise<string> {
+  const file = path.join(dir, name);
+  await sharp({ create: { width, height, channels: 3, background: '#336699' } })
+    .toFormat(format)
+    .toFile(file);
+  return file;
+}
+
+test.describe('checkUploadFile', () => {
+  test('accepts an image of the exact size and format', async () => {
+    expect(await checkUploadFile('logo', await image('logo.png', 512, 512, 'png'), logoSpec)).toEqual([]);
+  });
+
+  test('reports a missing or empty file', async () => {
+    const missing = path.join(dir, 'missing.png');
+    expect(await checkUploadFile('logo', missing, logoSpec)).toEqual([`logo: ${missing} does not exist`]);
+    const empty = path.join(dir, 'empty.png');
+    fs.writeFileSync(empty, '');
+    expect(await checkUploadFile('logo', empty, logoSpec)).toEqual([`logo: ${empty} is empty`]);
+  });
+
+  test('reports the wrong size, format and byte count together', async () => {
+    const file = await image('logo.jpg', 640, 480, 'jpeg');
+    const { size } = fs.statSync(file);
+    expect(await checkUploadFile('logo', file, { ...logoSpec, maxBytes: 100 })).toEqual([
+      `logo: logo.jpg is ${size} bytes, over the 100-byte limit`,
+      'logo: logo.jpg is jpeg, expected png',
+      'logo: logo.jpg is 640x480, expected 512x512',
+    ]);
+  });
+
+  test('reports an image file that does not decode', async () => {
+    const file = path.join(dir, 'broken.png');
+    fs.writeFileSync(file, 'not an image');
+    const [problem] = await checkUploadFile('logo', file, logoSpec);
+    expect(problem).toMatch(/^logo: broken\.png is not a readable image/);
+  });
+
+  test('only checks the extension and size of a video', async () => {
+    const file = path.join(dir, 'demo.mov');
+    fs.writeFileSync(file, Buffer.alloc(1024, 1));
+    expect(await checkUploadFile('video', file, { fit: 'cover', format: 'mp4', maxBytes: 512 })).toEqual([
+      'video: demo.mov is 1024 bytes, over the 512-byte limit',
+      'video: demo.mov must be an MP4 file',
+    ]);
+  });
+});
+
+test.describe('validateUploads', () => {
+  const form = loadFormDefinition(path.join(__dirname, '..', 'forms', 'ethglobal-bangkok.json'), quiet);
+
+  test("checks every upload against the form's asset spec", async () => {
+    const problems = await validateUploads(form, {
+      logo: await image('logo.png', 512, 512, 'png'),
+      cover: await image('cover.jpg', 1920, 1080, 'jpeg'),
+      screenshots: [await image('screenshot1.jpg', 1920, 1080, 'jpeg'), await image('screenshot2.jpg', 1280, 720, 'jpeg')],
+    });
+    expect(problems).toEqual(['screenshots: screenshot2.jpg is 1280x720, expected 1920x1080', 'video: no file']);
+  });
+});
@@ -0,0 +1,89 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { expect, test } from '@playwright/test';
+import { SubmissionArtifacts, formUrl, loadFormDefinition, runForm } from '../src/forms';
+import { MockPortal, checkRehearsal, startMockPortal } from '../src/portal';
+
+const form = loadFormDefinition(path.join(__dirname, '..', 'forms', 'ethglobal-bangkok.json'));
+const quiet = { log: () => {}, error: () => {} };
+const sentence = 'A wallet that pays for gas with stablecoins, so new users never need to hold ETH. ';
+
+let workDir: string;
+let portal: MockPortal;
+let artifacts: SubmissionArtifacts;
+
+// Helper function to write a blank image of the form's exact size and format
+async function image(name: string, width: number, height: number, format: 'png' | 'jpeg'): Promise<string> {
+  const file = path.join(workDir, name);
+  await sharp({ create: { width, height, channels: 3, background: '#336699' } })
+    .toFormat(format)
+    .toFile(file);
+  return file;
+}
+
+test.beforeEach(async () => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'portal-'));
+  portal = await startMockPortal({
+    form,
+    recordDir: path.join(workDir, 'rehearsal'),
+    sponsors: ['Chainlink', 'The Graph', 'Worldcoin'],
+    maxPartners: 3,
+  });
+  const video = path.join(workDir, 'video.mp4');
+  fs.writeFileSync(video, Buffer.alloc(1024, 1));
+  artifacts = {
+    projectName: 'Gasless Wallet',
+    briefDescription: sentence.trim(),
+    detailedDescription: sentence.repeat(10),
+    readme: '# Gasless Wallet',
+    repoUrl: 'https://github.com/org/gasless-wallet',
+    logo: await image('logo.png', 512, 512, 'png'),
+    cover: await image('cover.jpg', 1920, 1080, 'jpeg'),
+    screenshots: [await image('screenshot1.jpg', 1920, 1080, 'jpeg'), await image('screenshot2.jpg', 1920, 1080, 'jpeg')],
+    video,
+    techDevTools: ['Hardhat'],
+    techBlockchain: ['Base'],
+    techLanguages: ['Solidity', 'TypeScript'],
+    techWebFrameworks: ['Next.js'],
+    techDatabases: [],
+    techDesign: ['Tailwind CSS'],
+    contributors: ['Ada'],
+    sponsors: ['Chainlink|Chainlink Labs'],
+    shortDescription: sentence.trim(),
+    whatItDoes: sentence.repeat(5),
+    howItsMade: sentence.repeat(5),
+  };
+});
+
+test.afterEach(async () => {
+  await portal.close();
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+test('fills in every page of the ethglobal form on the mock portal', async ({ page }) => {
+  await page.goto(formUrl(portal.url, form));
+  await runForm(page, form, artifacts, {
+    interactive: false,
+    timeoutMs: 30_000,
+    failureDir: path.join(workDir, 'failures'),
+    logger: quiet,
+  });
+
+  const checks = checkRehearsal(form, artifacts, portal.submission, path.join(workDir, 'rehearsal'));
+  expect(checks.filter((check) => !check.ok)).toEqual([]);
+  expect(portal.submission.prizes?.partners).toEqual(['Chainlink']);
+});
+
+test('rejects a repository URL that is a local path', async ({ page }) => {
+  await page.goto(formUrl(portal.url, form));
+  const run = runForm(page, form, { ...artifacts, repoUrl: '/home/ada/gasless-wallet' }, {
+    interactive: false,
+    timeoutMs: 10_000,
+    failureDir: path.join(workDir, 'failures'),
+    logger: quiet,
+  });
+  await expect(run).rejects.toThrow('repoUrl must be a URL');
+  expect(portal.submission.details).toBeUndefined();
+});
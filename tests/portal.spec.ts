@@ -0,0 +1,162 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { expect, test } from '@playwright/test';
+import { SubmissionArtifacts, loadFormDefinition } from '../src/forms';
+import { MockPortal, PortalSubmission, checkRehearsal, formatRehearsalReport, startMockPortal } from '../src/portal';
+
+// The same portal and form as tests/portal.e2e.ts, driven through the page's
+// HTTP API instead of a browser, so it runs without Chromium
+const form = loadFormDefinition(path.join(__dirname, '..', 'forms', 'ethglobal-bangkok.json'));
+const sentence = 'A wallet that pays for gas with stablecoins, so new users never need to hold ETH. ';
+
+let workDir: string;
+let recordDir: string;
+let portal: MockPortal;
+let artifacts: SubmissionArtifacts;
+
+// Helper function to write a blank image of the form's exact size and format
+async function image(name: string, width: number, height: number, format: 'png' | 'jpeg'): Promise<string> {
+  const file = path.join(workDir, name);
+  await sharp({ create: { width, height, channels: 3, background: '#336699' } })
+    .toFormat(format)
+    .toFile(file);
+  return file;
+}
+
+// Helper function to send a request as portal/index.html does, returning the status and body
+async function post(route: string, body: unknown): Promise<{ status: number; body: { errors?: string[] } }> {
+  const response = await fetch(`${portal.url}${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': Buffer.isBuffer(body) ? 'application/octet-stream' : 'application/json' },
+    body: Buffer.isBuffer(body) ? new Uint8Array(body) : JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+const upload = (inputId: string, file: string) =>
+  post(`/api/uploads/${inputId}?filename=${encodeURIComponent(path.basename(file))}`, fs.readFileSync(file));
+
+test.beforeEach(async () => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'portal-'));
+  recordDir = path.join(workDir, 'rehearsal');
+  portal = await startMockPortal({ form, recordDir, sponsors: ['Chainlink', 'The Graph'], maxPartners: 1 });
+  const video = path.join(workDir, 'video.mp4');
+  fs.writeFileSync(video, Buffer.alloc(1024, 1));
+  artifacts = {
+    projectName: 'Gasless Wallet',
+    repoUrl: 'https://github.com/org/gasless-wallet',
+    logo: await image('logo.png', 512, 512, 'png'),
+    cover: await image('cover.jpg', 1920, 1080, 'jpeg'),
+    screenshots: [await image('screenshot1.jpg', 1920, 1080, 'jpeg')],
+    video,
+    shortDescription: sentence.trim(),
+    whatItDoes: sentence.repeat(5),
+    howItsMade: sentence.repeat(5),
+  };
+});
+
+test.afterEach(async () => {
+  await portal.close();
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+test.describe('mock portal', () => {
+  test('records a complete submission that passes every rehearsal check', async () => {
+    const steps: [string, unknown][] = [
+      ['create-project', { name: artifacts.projectName, category: 'DeFi', emoji: '⛽', acceptedRules: true }],
+      [
+        'details',
+        {
+          shortDescription: artifacts.shortDescription,
+          whatItDoes: artifacts.whatItDoes,
+          howItsMade: artifacts.howItsMade,
+          repoUrl: artifacts.repoUrl,
+        },
+      ],
+    ];
+    for (const [step, data] of steps) {
+      expect((await post(`/api/steps/${step}`, data)).status, step).toBe(200);
+    }
+    for (const [inputId, file] of [
+      ['logoId', artifacts.logo],
+      ['bannerId', artifacts.cover],
+      ['screenshot1', artifacts.screenshots[0]],
+      ['video', artifacts.video],
+    ] as [string, string][]) {
+      expect((await upload(inputId, file)).status, inputId).toBe(200);
+    }
+    for (const [step, data] of [
+      ['media', {}],
+      ['video', {}],
+      ['tech', { techLanguages: ['Solidity', 'TypeScript'], techBlockchain: ['Base'] }],
+      ['prizes', { track: 'All prizes', partners: ['Chainlink'] }],
+      ['terms', { accepted: true }],
+    ] as [string, unknown][]) {
+      expect((await post(`/api/steps/${step}`, data)).status, step).toBe(200);
+    }
+    expect((await post('/api/submit', {})).status).toBe(200);
+
+    const checks = checkRehearsal(form, artifacts, portal.submission, recordDir);
+    expect(checks.filter((check) => !check.ok)).toEqual([]);
+    // What the rehearse command reads back from the run directory
+    const recorded = JSON.parse(fs.readFileSync(path.join(recordDir, 'submission.json'), 'utf8'));
+    expect(recorded).toEqual(portal.submission);
+  });
+
+  test("rejects what the real portal would, with the portal's messages", async () => {
+    const short = await post('/api/steps/details', { shortDescription: 'Too short', repoUrl: '/home/ada/gasless-wallet' });
+    expect(short).toEqual({
+      status: 400,
+      body: { errors: ['shortDescription must be at least 40 characters (got 9)', 'repoUrl must be a URL'] },
+    });
+    const logo = await upload('logoId', artifacts.cover as string);
+    expect(logo.body.errors).toEqual([
+      'logoId: logoId-cover.jpg is jpeg, expected png',
+      'logoId: logoId-cover.jpg is 1920x1080, expected 512x512',
+    ]);
+    expect((await post('/api/steps/prizes', { track: 'All prizes', partners: ['Chainlink', 'The Graph'] })).body).toEqual({
+      errors: ['Pick at most 1 partner prizes'],
+    });
+    expect((await post('/api/submit', {})).body.errors).toEqual([
+      'Complete every step before submitting: project, details, tech stack, prizes, terms missing',
+    ]);
+    expect(portal.submission).toEqual({ uploads: {} });
+  });
+});
+
+test.describe('checkRehearsal', () => {
+  test('reports what a recorded submission is missing or got wrong', async () => {
+    const logo = path.join(recordDir, 'uploads', 'logoId-logo.png');
+    fs.copyFileSync(artifacts.logo as string, logo);
+    const recorded: PortalSubmission = {
+      project: { name: 'Gasless Wallet', category: 'DeFi', emoji: '⛽', acceptedRules: true },
+      details: {
+        shortDescription: artifacts.shortDescription as string,
+        whatItDoes: 'An older draft of the text.',
+        howItsMade: artifacts.howItsMade as string,
+        repoUrl: artifacts.repoUrl as string,
+      },
+      uploads: {
+        logoId: { file: 'uploads/logoId-logo.png', bytes: 1, sha256: 'not the logo' },
+      },
+      tech: { techLanguages: ['Solidity'] },
+      prizes: { track: 'All prizes', partners: [] },
+      termsAccepted: true,
+    };
+
+    const checks = checkRehearsal(form, artifacts, recorded, recordDir);
+    expect(checks.filter((check) => !check.ok)).toEqual([
+      { name: 'submitted', ok: false, detail: 'the final submit was not received' },
+      { name: 'whatItDoes', ok: false, detail: '27 characters received' },
+      { name: 'logoId', ok: false, detail: `1 bytes in ${logo}` },
+      { name: 'bannerId', ok: false, detail: 'cover.jpg not received' },
+      { name: 'screenshot1', ok: false, detail: 'screenshot1.jpg not received' },
+      { name: 'video', ok: false, detail: 'video.mp4 not received' },
+    ]);
+    expect(formatRehearsalReport(form.name, checks)).toContain(
+      `6 of ${checks.length} checks failed; the real submission would likely fail the same way.`
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect, test } from '@playwright/test';
+import { PrizeOptions, matchSponsors, selectSponsors } from '../src/prizes';
+
+const quiet = { log: () => {}, error: () => {} };
+const options: PrizeOptions = {
+  sponsors: [
+    {
+      name: 'Acme',
+      packages: ['@acme/*'],
+      hosts: ['api.acme.dev'],
+      chainIds: [424242],
+      addresses: ['0x1111111111111111111111111111111111111111'],
+      keywords: ['AcmeClient'],
+    },
+  ],
+  exclude: [],
+  minConfidence: 0.5,
+  maxPrizes: 3,
+};
+
+test.describe('matchSponsors', () => {
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prizes-'));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Helper function to write the files and return Acme's confidence
+  const confidence = (files: Record<string, string>) => {
+    for (const [file, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(dir, file), content);
+    }
+    return matchSponsors(dir, Object.keys(files), options, undefined, quiet).find((match) => match.sponsor === 'Acme')
+      ?.confidence;
+  };
+
+  test('scores one signal by its weight, however often it is seen', () => {
+    expect(confidence({ 'a.ts': "import { pay } from '@acme/sdk';", 'b.ts': "import { refund } from '@acme/sdk/refunds';" })).toBe(0.6);
+  });
+
+  test('combines distinct signals, each lowering the chance the match is wrong', () => {
+    // 1 - (1 - 0.6) * (1 - 0.3)
+    expect(confidence({ 'a.ts': "import { AcmeClient } from '@acme/sdk';" })).toBe(0.72);
+    // 1 - (1 - 0.7) * (1 - 0.5) * (1 - 0.4)
+    expect(
+      confidence({
+        'config.ts': "const vault = '0x1111111111111111111111111111111111111111';\nconst rpc = 'https://api.acme.dev';\nconst chainId = 424242;",
+      })
+    ).toBe(0.91);
+  });
+
+  test('skips documentation, where a sponsor is only mentioned', () => {
+    expect(confidence({ 'README.md': "import { AcmeClient } from '@acme/sdk';" })).toBeUndefined();
+  });
+
+  test('redacts secrets from the evidence lines it quotes', () => {
+    // Built from parts so this file doesn't look like it leaks anything
+    const key = ['a1B2c3D4', 'e5F6g7H8'].join('');
+    fs.writeFileSync(path.join(dir, 'client.ts'), `fetch('https://api.acme.dev/v1', { headers: { apiKey: '${key}' } });\n`);
+    const secrets = { onFound: 'redact' as const, patterns: [], allow: [], entropyThreshold: 4.2 };
+    const [match] = matchSponsors(dir, ['client.ts'], options, secrets, quiet);
+    expect(match.sponsor).toBe('Acme');
+    expect(match.evidence[0].text).toContain('[REDACTED:secretAssignment]');
+    expect(match.evidence[0].text).not.toContain(key);
+  });
+});
+
+test.describe('selectSponsors', () => {
+  test('keeps the confident matches, up to the prize limit', () => {
+    const match = (sponsor: string, confidence: number) => ({ sponsor, aliases: [], confidence, evidence: [] });
+    const matches = [match('Acme', 0.91), match('Globex', 0.72), match('Initech', 0.6), match('Hooli', 0.3)];
+    expect(selectSponsors(matches, { ...options, maxPrizes: 2 }).map((selected) => selected.sponsor)).toEqual([
+      'Acme',
+      'Globex',
+    ]);
+    expect(selectSponsors(matches, { ...options, minConfidence: 0.7 }).map((selected) => selected.sponsor)).toEqual([
+      'Acme',
+      'Globex',
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect, test } from '@playwright/test';
+import { PublishContent, PublishOptions, parseGitHubRepository, publishFiles, resolveRepository } from '../src/publish';
+
+const options: PublishOptions = {
+  baseUrl: 'https://api.github.com',
+  tokenEnv: 'GITHUB_TOKEN',
+  branch: 'readme-generator',
+  includeImages: false,
+  draft: false,
+};
+
+const content = (overrides: Partial<PublishContent> = {}): PublishContent => ({
+  readme: '# Demo\n\nA demo project.\n',
+  projectName: 'Demo',
+  briefDescription: 'A demo project.',
+  source: { location: 'https://github.com/org/demo' },
+  ...overrides,
+});
+
+test.describe('parseGitHubRepository', () => {
+  test('reads owner and repo from HTTPS and SSH URLs', () => {
+    for (const location of [
+      'https://github.com/org/demo',
+      'https://github.com/org/demo.git',
+      'https://github.com/org/demo/',
+      'git@github.com:org/demo.git',
+      'ssh://git@github.com/org/demo.git',
+    ]) {
+      expect(parseGitHubRepository(location), location).toEqual({ owner: 'org', repo: 'demo' });
+    }
+  });
+
+  test('keeps dots inside the repository name', () => {
+    expect(parseGitHubRepository('https://github.com/org/demo.js.git')).toEqual({ owner: 'org', repo: 'demo.js' });
+  });
+
+  test('rejects local paths and URLs that are not owner/repo', () => {
+    expect(parseGitHubRepository('./my-project')).toBeUndefined();
+    expect(parseGitHubRepository('/home/me/demo')).toBeUndefined();
+    expect(parseGitHubRepository('https://github.com/org')).toBeUndefined();
+    expect(parseGitHubRepository('https://github.com/org/demo/tree/main')).toBeUndefined();
+  });
+});
+
+test.describe('publishFiles', () => {
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'publish-'));
+    fs.writeFileSync(path.join(dir, 'logo.png'), 'logo');
+    fs.writeFileSync(path.join(dir, 'cover.png'), 'cover');
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('commits only the README without images', () => {
+    const files = publishFiles(
+      content({ logoPath: path.join(dir, 'logo.png'), coverPath: path.join(dir, 'cover.png') }),
+      options
+    );
+    expect(files).toEqual([{ path: 'README.md', content: '# Demo\n\nA demo project.\n', encoding: 'utf-8' }]);
+  });
+
+  test('adds the images under assets/ and shows the cover in the README', () => {
+    const files = publishFiles(
+      content({ logoPath: path.join(dir, 'logo.png'), coverPath: path.join(dir, 'cover.png') }),
+      { ...options, includeImages: true }
+    );
+    expect(files.map((file) => file.path)).toEqual(['README.md', 'assets/logo.png', 'assets/cover.png']);
+    expect(files[0].content).toBe('![Demo](assets/cover.png)\n\n# Demo\n\nA demo project.\n');
+    expect(files[1]).toEqual({ path: 'assets/logo.png', content: Buffer.from('logo').toString('base64'), encoding: 'base64' });
+  });
+
+  test('does not add the cover twice', () => {
+    const readme = '# Demo\n\n![cover](assets/cover.png)\n';
+    const files = publishFiles(content({ readme, coverPath: path.join(dir, 'cover.png') }), {
+      ...options,
+      includeImages: true,
+    });
+    expect(files[0].content).toBe(readme);
+  });
+
+  test('skips images that are missing', () => {
+    const files = publishFiles(content({ logoPath: path.join(dir, 'missing.png') }), { ...options, includeImages: true });
+    expect(files.map((file) => file.path)).toEqual(['README.md']);
+    expect(files[0].content).not.toContain('assets/cover.png');
+  });
+
+  test('puts the files next to the analyzed subdirectory', () => {
+    const files = publishFiles(
+      content({
+        source: { location: 'https://github.com/org/mono', subdir: 'packages/app' },
+        coverPath: path.join(dir, 'cover.png'),
+      }),
+      { ...options, includeImages: true }
+    );
+    expect(files.map((file) => file.path)).toEqual(['packages/app/README.md', 'packages/app/assets/cover.png']);
+  });
+});
+
+test.describe('resolveRepository', () => {
+  test('prefers publish.repository', async () => {
+    expect(await resolveRepository({ ...options, repository: 'team/app' }, { location: './demo' })).toEqual({
+      owner: 'team',
+      repo: 'app',
+    });
+  });
+
+  test('reads a GitHub source URL', async () => {
+    expect(await resolveRepository(options, { location: 'https://github.com/org/demo', ref: 'main' })).toEqual({
+      owner: 'org',
+      repo: 'demo',
+    });
+  });
+
+  test("uses a local checkout's origin remote", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'publish-'));
+    try {
+      execFileSync('git', ['init', '-q'], { cwd: dir });
+      await expect(resolveRepository(options, { location: dir })).rejects.toThrow('Cannot tell the GitHub repository');
+      execFileSync('git', ['remote', 'add', 'origin', 'git@github.com:org/demo.git'], { cwd: dir });
+      fs.mkdirSync(path.join(dir, 'app'));
+      expect(await resolveRepository(options, { location: dir, subdir: 'app' })).toEqual({ owner: 'org', repo: 'demo' });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,82 @@
+import { expect, test } from '@playwright/test';
+import { HttpError, RetryPolicy, retryDelay, withRetry } from '../src/resilience';
+
+const policy: RetryPolicy = { retries: 2, baseDelayMs: 1, maxDelayMs: 50, timeoutMs: 1000 };
+
+const rateLimited = (retryAfter: string) =>
+  new HttpError('rate limited', 429, new Headers({ 'retry-after': retryAfter }));
+
+test.describe('retryDelay', () => {
+  test("waits as long as the server's Retry-After asks", () => {
+    expect(retryDelay(rateLimited('0.02'), 0, policy)).toBe(20);
+  });
+
+  test('caps Retry-After at maxDelayMs', () => {
+    expect(retryDelay(rateLimited('3600'), 0, policy)).toBe(50);
+    expect(retryDelay(rateLimited(new Date(Date.now() + 3_600_000).toUTCString()), 0, policy)).toBe(50);
+  });
+
+  test('backs off exponentially up to maxDelayMs without Retry-After', () => {
+    const error = new HttpError('unavailable', 503, new Headers());
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const delay = retryDelay(error, attempt, { ...policy, baseDelayMs: 10 });
+      const backoff = Math.min(50, 10 * 2 ** attempt);
+      expect(delay).toBeGreaterThanOrEqual(backoff / 2);
+      expect(delay).toBeLessThanOrEqual(backoff);
+    }
+  });
+});
+
+test.describe('withRetry', () => {
+  test('reports retries to the logger it is given', async () => {
+    const lines: string[] = [];
+    const logger = { log: (...args: unknown[]) => lines.push(args.join(' ')), error: () => {} };
+    let calls = 0;
+    const result = await withRetry(
+      'demo call',
+      policy,
+      async () => {
+        calls++;
+        if (calls < 2) {
+          throw rateLimited('0');
+        }
+        return 'done';
+      },
+      { logger }
+    );
+    expect(result).toBe('done');
+    expect(lines).toEqual(['demo call failed (rate limited), retrying in 0.0s (1/2)']);
+  });
+
+  test('cancels the attempt in flight when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const call = withRetry(
+      'slow call',
+      policy,
+      (signal) =>
+        new Promise((_, reject) => {
+          signal.addEventListener('abort', () => reject(new Error('request aborted')));
+          controller.abort(new Error('cancelled'));
+        }),
+      { signal: controller.signal }
+    );
+    await expect(call).rejects.toThrow('cancelled');
+  });
+
+  test('stops waiting for a retry when the signal is aborted', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const call = withRetry(
+      'rate limited call',
+      { ...policy, maxDelayMs: 60_000 },
+      async () => {
+        calls++;
+        setTimeout(() => controller.abort(new Error('cancelled')), 10);
+        throw rateLimited('60');
+      },
+      { logger: { log: () => {}, error: () => {} }, signal: controller.signal }
+    );
+    await expect(call).rejects.toThrow('cancelled');
+    expect(calls).toBe(1);
+  });
+});
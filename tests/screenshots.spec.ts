@@ -0,0 +1,79 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect, test } from '@playwright/test';
+import { detectServeMethod, discoverFileRoutes, projectEnv } from '../src/screenshots';
+
+const quiet = { log: () => {}, error: () => {} };
+
+test.describe('detectServeMethod', () => {
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'screenshots-'));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writePackage = (scripts: Record<string, string>) =>
+    fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ scripts }));
+
+  test('prefers the dev script, then start, when scripts may run', () => {
+    writePackage({ dev: 'vite', start: 'node server.js' });
+    expect(detectServeMethod(dir, true, quiet)).toEqual({ kind: 'script', script: 'dev' });
+    writePackage({ start: 'node server.js', build: 'vite build' });
+    expect(detectServeMethod(dir, true, quiet)).toEqual({ kind: 'script', script: 'start' });
+    writePackage({ build: 'vite build' });
+    expect(detectServeMethod(dir, true, quiet)).toEqual({ kind: 'static', root: dir, build: 'build' });
+  });
+
+  test("never picks the project's scripts unless they may run", () => {
+    writePackage({ dev: 'vite', build: 'vite build' });
+    expect(detectServeMethod(dir, false, quiet)).toBeUndefined();
+    fs.mkdirSync(path.join(dir, 'dist'));
+    fs.writeFileSync(path.join(dir, 'dist', 'index.html'), '<h1>Demo</h1>');
+    expect(detectServeMethod(dir, false, quiet)).toEqual({ kind: 'static', root: path.join(dir, 'dist') });
+  });
+});
+
+test.describe('projectEnv', () => {
+  test("keeps what package managers need and drops this tool's secrets", () => {
+    const env = projectEnv(
+      {
+        PATH: '/usr/bin',
+        HOME: '/home/ada',
+        HTTPS_PROXY: 'http://proxy:3128',
+        OPENAI_API_KEY: 'sk-secret',
+        GITHUB_TOKEN: 'ghp_secret',
+        ALORIA_API_KEY: 'secret',
+        MY_PROVIDER_KEY: 'secret',
+      },
+      { PORT: '4000' }
+    );
+    expect(env).toEqual({
+      PATH: '/usr/bin',
+      HOME: '/home/ada',
+      HTTPS_PROXY: 'http://proxy:3128',
+      BROWSER: 'none',
+      CI: '1',
+      PORT: '4000',
+    });
+  });
+});
+
+test.describe('discoverFileRoutes', () => {
+  test('lists static Next.js routes, skipping dynamic and API routes', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'screenshots-'));
+    try {
+      for (const file of ['pages/index.tsx', 'pages/about.tsx', 'pages/[id].tsx', 'pages/api/hello.ts']) {
+        fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+        fs.writeFileSync(path.join(dir, file), '');
+      }
+      expect(discoverFileRoutes(dir).sort()).toEqual(['/', '/about']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
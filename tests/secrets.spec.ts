@@ -0,0 +1,100 @@
+import { expect, test } from '@playwright/test';
+import { SecretOptions, formatSecretReport, redactSecrets, shannonEntropy } from '../src/secrets';
+
+const options: SecretOptions = { onFound: 'redact', patterns: [], allow: [], entropyThreshold: 4.2 };
+
+// Test values are built from parts so the file itself doesn't look like it leaks anything
+const DISCORD_TOKEN = ['MTA1NzQ0OTY3ODkwMTIzNDU2Nw', 'GhT5x9', 'abcDEF1234567890ghijKLMNOPqrstuv'].join('.');
+const AWS_KEY = ['AKIA', 'IOSFODNN7EXAMPLE'].join('');
+const GITHUB_TOKEN = ['ghp_', 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8'].join('');
+
+const redact = (content: string, filePath = 'src/app.ts') => redactSecrets(content, filePath, options);
+
+test.describe('redactSecrets', () => {
+  test('redacts quoted values assigned to secret-named variables even when they look like code', () => {
+    for (const content of [
+      `const botToken = "${DISCORD_TOKEN}";`,
+      'password = "Summer2024.Secret"',
+      "const config = { apiSecret: 'prod.Key2024' };",
+    ]) {
+      const result = redact(content);
+      expect(result.findings, content).toHaveLength(1);
+      expect(result.content, content).toContain('[REDACTED:secretAssignment]');
+      expect(result.content, content).not.toMatch(/Summer2024|GhT5x9|prod\.Key2024/);
+    }
+  });
+
+  test('leaves unquoted code on the right-hand side alone', () => {
+    for (const content of [
+      'const apiKey = config.apiKey;',
+      'const token = await getToken(user);',
+      'headers.authorization = session?.accessToken2;',
+      'let secrets: SecretFinding[] = [];',
+    ]) {
+      expect(redact(content).findings, content).toEqual([]);
+    }
+  });
+
+  test('treats unquoted dotted values in .env files as secrets', () => {
+    const result = redact('DB_PASSWORD=Summer2024.Secret\n', '.env.production');
+    expect(result.content).toBe('DB_PASSWORD=[REDACTED:secretAssignment]\n');
+  });
+
+  test('skips environment lookups, placeholders and word-like values', () => {
+    for (const content of [
+      'const apiKey = process.env.OPENAI_API_KEY;',
+      'API_KEY=${OPENAI_API_KEY}',
+      'API_KEY=your-api-key-here',
+      'password: "password"',
+      'token_count = 12345678',
+    ]) {
+      expect(redact(content).findings, content).toEqual([]);
+    }
+  });
+
+  test('recognizes known token formats wherever they appear', () => {
+    const result = redact(`aws = "${AWS_KEY}"\nfetch(url, { headers: { Authorization: \`Bearer ${GITHUB_TOKEN}\` } })`);
+    expect(result.findings.map((finding) => [finding.line, finding.detector])).toEqual([
+      [1, 'awsAccessKey'],
+      [2, 'githubToken'],
+    ]);
+    expect(result.content).not.toContain(AWS_KEY);
+    expect(result.content).not.toContain(GITHUB_TOKEN);
+  });
+
+  test('redacts only the key inside an RPC URL', () => {
+    const result = redact('const rpc = "https://eth-mainnet.g.alchemy.com/v2/abcdEFGH1234ijklMNOP";');
+    expect(result.content).toBe('const rpc = "https://eth-mainnet.g.alchemy.com/v2/[REDACTED:rpcUrlKey]";');
+  });
+
+  test('redacts random-looking quoted strings by entropy', () => {
+    const result = redact('const value = "q8ZtR2vLx9KpW4mN7bYc3JfH";');
+    expect(result.findings.map((finding) => finding.detector)).toEqual(['highEntropyString']);
+  });
+
+  test('honours the allow list and custom patterns', () => {
+    const custom = redactSecrets(
+      `aws = "${AWS_KEY}"\nconst id = "acme_live_0123456789";`,
+      'src/app.ts',
+      { ...options, allow: ['EXAMPLE$'], patterns: [{ name: 'acmeKey', pattern: 'acme_live_\\d+' }] }
+    );
+    expect(custom.findings.map((finding) => finding.detector)).toEqual(['acmeKey']);
+    expect(custom.content).toContain(AWS_KEY);
+  });
+
+  test('shows only the first characters of a secret in findings', () => {
+    const [finding] = redact('password = "Summer2024.Secret"').findings;
+    expect(finding).toEqual({ file: 'src/app.ts', line: 1, detector: 'secretAssignment', preview: 'Summ…' });
+  });
+});
+
+test('shannonEntropy is zero for repeated characters and grows with variety', () => {
+  expect(shannonEntropy('aaaa')).toBe(0);
+  expect(shannonEntropy('abcd')).toBe(2);
+});
+
+test('formatSecretReport lists every finding', () => {
+  const report = formatSecretReport(redact('password = "Summer2024.Secret"').findings);
+  expect(report).toContain('Redacted 1 possible secret in 1 file');
+  expect(report).toContain('- src/app.ts:1 secretAssignment `Summ…`');
+});
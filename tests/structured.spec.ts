@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { expect, test } from '@playwright/test';
+import { ChatMessage, LLMProvider } from '../src/providers';
+import { extractJson, generateStructured } from '../src/structured';
+
+const quiet = { log: () => {}, error: () => {} };
+const Schema = z.object({ name: z.string().min(3, 'Too short') });
+
+// A provider that answers with the given responses in turn and records the conversations
+function scriptedProvider(responses: string[]): LLMProvider & { conversations: ChatMessage[][] } {
+  const conversations: ChatMessage[][] = [];
+  return {
+    name: 'scripted',
+    conversations,
+    async complete(messages: ChatMessage[]) {
+      conversations.push([...messages]);
+      return responses[conversations.length - 1];
+    },
+    async generateImages() {
+      return [];
+    },
+  };
+}
+
+test.describe('extractJson', () => {
+  test('prefers a fenced json block over braces in the prose around it', () => {
+    const response = 'Here is {the} result:\n```json\n{"name": "Gasless"}\n```\nDone.';
+    expect(extractJson(response)).toBe('{"name": "Gasless"}');
+  });
+
+  test('takes the first complete object, ignoring braces inside strings', () => {
+    const response = 'Sure! {"name": "a } b", "nested": {"x": "{"}} and {"second": true}';
+    expect(JSON.parse(extractJson(response))).toEqual({ name: 'a } b', nested: { x: '{' } });
+  });
+
+  test('escapes raw control characters inside strings', () => {
+    const response = '{"text": "line one\nline two\ttabbed", "quote": "say \\"hi\\""}';
+    expect(JSON.parse(extractJson(response))).toEqual({ text: 'line one\nline two\ttabbed', quote: 'say "hi"' });
+  });
+
+  test('reports a missing or unclosed object', () => {
+    expect(() => extractJson('No JSON here')).toThrow('No JSON object found in the response');
+    expect(() => extractJson('{"name": "Gasless"')).toThrow('The JSON object in the response is not closed');
+  });
+});
+
+test.describe('generateStructured', () => {
+  const messages: ChatMessage[] = [{ role: 'user', content: 'Name the project' }];
+
+  test('returns the first response that validates', async () => {
+    const provider = scriptedProvider(['{"name": "Gasless"}']);
+    const result = await generateStructured(provider, messages, Schema, { format: 'json', label: 'Name', maxRepairs: 2 });
+    expect(result).toEqual({ name: 'Gasless' });
+    expect(provider.conversations).toHaveLength(1);
+  });
+
+  test('feeds the validation error back to the model', async () => {
+    const provider = scriptedProvider(['{"name": "Go"}', '{"name": "Gasless"}']);
+    const result = await generateStructured(provider, messages, Schema, {
+      format: 'json',
+      label: 'Name',
+      maxRepairs: 2,
+      logger: quiet,
+    });
+    expect(result).toEqual({ name: 'Gasless' });
+    const repair = provider.conversations[1];
+    expect(repair.slice(1, 2)).toEqual([{ role: 'assistant', content: '{"name": "Go"}' }]);
+    expect(repair[2].content).toContain('- name: Too short');
+    expect(repair[2].content).toContain('corrected JSON object');
+  });
+
+  test('fails once the repair budget runs out', async () => {
+    const provider = scriptedProvider(['not json', '{"name": "Go"}']);
+    const run = generateStructured(provider, messages, Schema, { format: 'json', label: 'Name', maxRepairs: 1, logger: quiet });
+    await expect(run).rejects.toThrow('Name from scripted failed validation after 2 attempts:\n- name: Too short');
+    expect(provider.conversations[1][2].content).toContain('The response is not valid JSON: No JSON object found');
+  });
+
+  test('validates the raw text in text format', async () => {
+    const provider = scriptedProvider(['  A summary.  ']);
+    const result = await generateStructured(provider, messages, z.string().trim().min(1), {
+      format: 'text',
+      label: 'Summary',
+      maxRepairs: 0,
+    });
+    expect(result).toBe('A summary.');
+  });
+});
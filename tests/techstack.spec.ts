@@ -0,0 +1,85 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect, test } from '@playwright/test';
+import { FileSummary } from '../src/condense';
+import { detectTechStack, parseManifest, techStackArtifacts } from '../src/techstack';
+
+const quiet = { log: () => {}, error: () => {} };
+
+test.describe('detectTechStack', () => {
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'techstack-'));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), content);
+  };
+
+  test('reads manifests, config files, imports and file extensions', () => {
+    write('package.json', JSON.stringify({ dependencies: { next: '14.0.0', wagmi: '2.0.0' }, devDependencies: { hardhat: '2.0.0' } }));
+    write('hardhat.config.ts', 'networks: { baseSepolia: { url }, arbitrum: { url } }');
+    write('prisma/schema.prisma', '');
+    const files: FileSummary[] = [
+      { path: 'app/page.tsx', summary: '', imports: ['@radix-ui/react-dialog', './button'] },
+      { path: 'app/api.ts', summary: '', imports: ['ioredis'] },
+      { path: 'contracts/Token.sol', summary: '' },
+      { path: 'prisma/schema.prisma', summary: '' },
+    ];
+
+    const stack = detectTechStack(dir, files, ['package.json', 'hardhat.config.ts'], quiet);
+    const names = Object.fromEntries(Object.entries(stack).map(([category, techs]) => [category, techs.map((tech) => tech.name)]));
+    expect(names).toEqual({
+      languages: ['TypeScript', 'Solidity'],
+      webFrameworks: ['Next.js'],
+      blockchain: ['Base', 'Arbitrum', 'Ethereum'],
+      databases: ['Redis', 'Prisma'],
+      devTools: ['Hardhat'],
+      design: ['Radix UI'],
+    });
+    expect(stack.webFrameworks[0].evidence).toEqual(['package.json: next']);
+    expect(stack.design[0].evidence).toEqual(['app/page.tsx: import @radix-ui/react-dialog']);
+    expect(stack.languages[0].evidence).toEqual(['2 files']);
+  });
+
+  test('lists every category, empty when nothing was found', () => {
+    const stack = detectTechStack(dir, [], [], quiet);
+    expect(techStackArtifacts(stack)).toEqual({
+      techLanguages: [],
+      techWebFrameworks: [],
+      techBlockchain: [],
+      techDatabases: [],
+      techDevTools: [],
+      techDesign: [],
+    });
+  });
+});
+
+test.describe('parseManifest', () => {
+  test('reads the dependency names of each manifest format', () => {
+    expect(parseManifest('requirements.txt', 'fastapi==0.110\n# comment\n-r base.txt\nsqlalchemy[asyncio]>=2\n', quiet)).toEqual([
+      'fastapi',
+      'sqlalchemy',
+    ]);
+    expect(parseManifest('go.mod', 'module x\n\nrequire (\n\tgithub.com/gin-gonic/gin v1.9.1\n)\n', quiet)).toEqual([
+      'github.com/gin-gonic/gin',
+    ]);
+    expect(parseManifest('Cargo.toml', '[package]\nname = "x"\n\n[dependencies]\naxum = "0.7"\nserde = { version = "1" }\n', quiet)).toEqual([
+      'axum',
+      'serde',
+    ]);
+  });
+
+  test('reports an unreadable manifest instead of failing', () => {
+    const errors: string[] = [];
+    expect(parseManifest('package.json', '{ not json', { log: () => {}, error: (message: string) => errors.push(message) })).toEqual([]);
+    expect(errors).toEqual(['Error parsing manifest package.json:']);
+  });
+});
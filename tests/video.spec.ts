@@ -0,0 +1,70 @@
+import { expect, test } from '@playwright/test';
+import { Scene, assignImages, formatSrt, splitIntoScenes, timeScenes } from '../src/video';
+
+test.describe('splitIntoScenes', () => {
+  test('groups whole sentences into scenes of about sceneWords words', () => {
+    expect(splitIntoScenes('One two three.  Four five!\nSix seven eight nine? Ten.', 5)).toEqual([
+      'One two three. Four five!',
+      'Six seven eight nine? Ten.',
+    ]);
+  });
+
+  test('keeps a sentence longer than a scene whole', () => {
+    expect(splitIntoScenes('Hi. This sentence is much longer than one scene. Bye.', 3)).toEqual([
+      'Hi.',
+      'This sentence is much longer than one scene.',
+      'Bye.',
+    ]);
+  });
+});
+
+test.describe('assignImages', () => {
+  test('opens and closes with the cover, showing screenshots in order in between', () => {
+    expect(assignImages(5, 'cover.jpg', ['a.jpg', 'b.jpg'])).toEqual(['cover.jpg', 'a.jpg', 'b.jpg', 'a.jpg', 'cover.jpg']);
+    expect(assignImages(2, 'cover.jpg', ['a.jpg'])).toEqual(['cover.jpg', 'a.jpg']);
+  });
+
+  test('falls back to the first screenshot, or the cover alone', () => {
+    expect(assignImages(3, undefined, ['a.jpg', 'b.jpg'])).toEqual(['a.jpg', 'a.jpg', 'a.jpg']);
+    expect(assignImages(3, 'cover.jpg', [])).toEqual(['cover.jpg', 'cover.jpg', 'cover.jpg']);
+    expect(() => assignImages(3, undefined, [])).toThrow('The video needs a cover image or at least one screenshot');
+  });
+});
+
+test.describe('timeScenes', () => {
+  const window = { minSeconds: 60, maxSeconds: 90 };
+
+  test('holds each image longer to reach the minimum length', () => {
+    expect(timeScenes([10, 10], window)).toEqual({ durations: [30, 30], tempo: 1 });
+  });
+
+  test('plays the narration faster to fit the maximum length', () => {
+    const { durations, tempo } = timeScenes([50, 50], window);
+    expect(tempo).toBeCloseTo(100 / 88.5);
+    expect(durations[0]).toBeCloseTo(45);
+    expect(durations[0] + durations[1]).toBeCloseTo(90);
+  });
+
+  test('fails when even the fastest narration is too long', () => {
+    expect(() => timeScenes([60, 60], window)).toThrow(
+      'The narration runs 120s, too long for the 90s limit even at 1.25x speed. Shorten the video script.'
+    );
+  });
+});
+
+test.describe('formatSrt', () => {
+  test("splits each scene's text into cues timed by their words", () => {
+    const words = (count: number, prefix: string) => Array.from({ length: count }, (_, i) => `${prefix}${i + 1}`).join(' ');
+    const scenes: Scene[] = [
+      { text: words(15, 'a'), image: 'cover.jpg', start: 61.5, duration: 8.25, narrationSeconds: 7.5 },
+      { text: words(2, 'b'), image: 'a.jpg', start: 3600, duration: 2, narrationSeconds: 1 },
+    ];
+    expect(formatSrt(scenes)).toBe(
+      [
+        `1\n00:01:01,500 --> 00:01:07,500\n${words(12, 'a')}\n`,
+        '2\n00:01:07,500 --> 00:01:09,000\na13 a14 a15\n',
+        '3\n01:00:00,000 --> 01:00:01,000\nb1 b2\n',
+      ].join('\n')
+    );
+  });
+});